@@ -1,16 +1,188 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import Tableau from './components/Tableau';
-import { ProblemState, SolverState, LogEntry } from './types';
-import { solveLeastCost, calculatePotentials, calculateOpportunityCosts, findLoop, applyPivot, generateRandomProblem, createEmptyGrid, calculateTotalCost } from './utils/solver';
+import TransshipmentEditor from './components/TransshipmentEditor';
+import AssignmentTableau from './components/AssignmentTableau';
+import AlternativeOptima from './components/AlternativeOptima';
+import SensitivityPanel from './components/SensitivityPanel';
+import PivotRuleComparison from './components/PivotRuleComparison';
+import ProblemExchange from './components/ProblemExchange';
+import NetworkView from './components/NetworkView';
+import ConvergenceChart from './components/ConvergenceChart';
+import PracticePanel from './components/PracticePanel';
+import { Cell, ProblemState, ProblemDraft, SolverState, LogEntry, InitialMethod, AllocationStep, TableauLine, OptimalityMethod, SteppingStoneEvaluation, Objective, LoopNode, ProblemMode, TransshipmentDraft, TransshipmentNetwork, HungarianStep, PivotRule, LoopPreview, ConvergenceSeries, PracticeScore, EngineStep } from './types';
+import { INITIAL_METHOD_LABELS, solveInitial, createEmptyGrid, calculatePotentials, findLoop, getLoopSigns, generateRandomProblem, hasCapacities, calculateTotalCost, summarizeDummyAllocation, formatAllocation, perturbProblem, findZeroDeltaCells, pivotAlternative, enumerateAlternativeOptima, allocationKey, PIVOT_RULE_LABELS, basisKey, loopLimits } from './utils/solver';
+import { countPivots, findStep, iterateBasis, recordBasis, runPivots } from './utils/engine';
+import { isShareHash, encodeShareHash, decodeShareHash } from './utils/shareLink';
+import { generateReport, ReportFormat } from './utils/report';
+import { downloadText } from './utils/download';
+import { solutionToLatex, solverStateToLatex } from './utils/latex';
+import { convergenceSeries, problemSignature, recordedSeries } from './utils/convergence';
+import { MIN_DIMENSION, MAX_DIMENSION, createBlankDraft, problemToDraft, parseProblemDraft, sumDraftValues } from './utils/problemInput';
+import { MAX_HUBS, createBlankTransshipmentDraft, generateRandomTransshipment, parseTransshipmentDraft, transshipmentToDraft, networkLabels, mapArcFlows } from './utils/transshipment';
+import { MAX_ASSIGNMENT_SIZE, createBlankAssignment, generateRandomAssignment, parseAssignment, solveHungarian, solveAssignmentBySimplex, countLines, workerLabel, jobLabel } from './utils/hungarian';
 import { sendMessageToAI, AIProvider, ChatMessage } from './services/geminiService';
-import { Play, RotateCcw, Brain, CheckCircle, ArrowRight, Settings, Activity, List, Calculator, Minus, Plus, FastForward, Zap, Send, MessageSquare, Bot, X, Key, AlertCircle, Sigma, Route } from 'lucide-react';
+import { Play, RotateCcw, Brain, CheckCircle, ArrowRight, Settings, Activity, List, Calculator, Minus, Plus, FastForward, Zap, Send, MessageSquare, Bot, X, Key, AlertCircle, Sigma, Route, Shuffle, PenLine, Pause, Network, Undo2, Redo2, FileText, Table, Workflow, GraduationCap } from 'lucide-react';
 import clsx from 'clsx';
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// Log entries worked out with a state update, added once the update is made
+type PendingLog = Omit<LogEntry, 'id' | 'snapshot'>;
+
+interface StepResult {
+  state: SolverState;
+  logs: PendingLog[];
+}
+
+const lineName = (line: TableauLine) => line.type === 'row' ? `S${line.index + 1}` : `D${line.index + 1}`;
+
+const describeAllocation = (label: string, step: AllocationStep, objective: Objective) => {
+  const cell = `(S${step.r + 1}, D${step.c + 1})`;
+  let text = step.allocation === 0
+    ? `在 ${cell} 填入 0 作为基变量，保证基变量个数为 m + n - 1。`
+    : `${label}：向 ${cell} 分配运量 ${formatAllocation(step.allocation)}。`;
+  if (step.atUpperBound) text = `${label}：${cell} 运量达到路线容量 ${step.allocation}，作为处于上界的非基变量。`;
+  if (step.chosenLine) {
+    const penalties = step.chosenLine.type === 'row' ? step.rowPenalties : step.colPenalties;
+    text = `${label}：罚数最大的是 ${lineName(step.chosenLine)} (罚数 ${penalties?.[step.chosenLine.index]})，在其中${objective === 'max' ? '利润最大' : '运价最小'}的 ${cell} 分配运量 ${formatAllocation(step.allocation)}。`;
+  }
+  if (step.russellDeltas) {
+    text = `${label}：Δ${step.r + 1}${step.c + 1} = ${step.russellDeltas[step.r][step.c]} 最小，在 ${cell} 分配运量 ${formatAllocation(step.allocation)}。`;
+  }
+  if (step.crossedLine) text += ` ${lineName(step.crossedLine)} 已满足，划去。`;
+  return text;
+};
+
+const OPTIMALITY_METHOD_LABELS: Record<OptimalityMethod, string> = {
+  'modi': '位势法 (MODI)',
+  'stepping-stone': '闭回路法'
+};
+
+// Why the entering cell was chosen, in the words of the active pivot rule
+const describeEntering = (rule: PivotRule, terms: { total: string; best: string; improving: string }, delta: number) => {
+  switch (rule) {
+    case 'most-negative': return `发现${terms.best}检验数 ${delta} (${terms.improving}值)`;
+    case 'first-negative': return `按行依次扫描，第一个${terms.improving}检验数为 ${delta}`;
+    case 'bland': return `按 Bland 规则取下标最小的${terms.improving}检验数 ${delta}`;
+    case 'largest-improvement': return `检验数 ${delta} 与其闭回路调整量 θ 之积最大，${terms.total}改进最多`;
+  }
+};
+
+const describeSteppingStone = (ev: SteppingStoneEvaluation, grid: Cell[][]) => {
+  const nodes = ev.loop.slice(0, -1);
+  const terms = nodes.map((n, i) => `${i === 0 ? '' : i % 2 === 0 ? ' + ' : ' − '}c${n.r + 1}${n.c + 1}`).join('');
+  const values = nodes.map((n, i) => `${i === 0 ? '' : i % 2 === 0 ? ' + ' : ' − '}${grid[n.r][n.c].cost}`).join('');
+  return `空格 (S${ev.cell.r + 1}, D${ev.cell.c + 1}) 的闭回路：Δ = ${terms} = ${values} = ${ev.delta}。`;
+};
+
+// Shows the loop of one empty cell plus the Δ of every cell evaluated so far
+const revealEvaluation = (grid: Cell[][], evaluations: SteppingStoneEvaluation[], cursor: number): Cell[][] => {
+  const g: Cell[][] = grid.map(r => r.map(c => ({ ...c, highlight: 'none' as const, opportunityCost: undefined })));
+  evaluations.slice(0, cursor + 1).forEach(ev => { g[ev.cell.r][ev.cell.c].opportunityCost = ev.delta; });
+  const signs = getLoopSigns(evaluations[cursor].loop, grid);
+  evaluations[cursor].loop.slice(0, -1).forEach((node, idx) => { g[node.r][node.c].highlight = signs[idx] > 0 ? 'loop-plus' : 'loop-minus'; });
+  return g;
+};
+
+// UI wording that follows the objective of the current problem
+const OBJECTIVE_TERMS: Record<Objective, { label: string; total: string; coefficient: string; formula: string; z: string; optimal: string; improving: string; best: string; changed: string }> = {
+  min: { label: '最小化运费', total: '总运费', coefficient: '运价', formula: 'Total Cost', z: 'Min Z', optimal: '≥ 0', improving: '负', best: '最小', changed: '降至' },
+  max: { label: '最大化利润', total: '总利润', coefficient: '利润', formula: 'Total Profit', z: 'Max Z', optimal: '≤ 0', improving: '正', best: '最大', changed: '升至' }
+};
+
+const describeInfeasible = (blockedFlow: Cell[]) =>
+  `大M法最优方案仍需经禁运路线 ${blockedFlow.map(c => `(S${c.row + 1}, D${c.col + 1}) 运量 ${formatAllocation(c.allocation ?? 0)}`).join('、')}，说明不存在只使用允许路线的可行方案。`;
+
+const MAX_OBJECTIVE_HINT = "(最大化问题：按机会损失 “最大利润 − c_ij” 应用该方法，即优先考虑利润高的路径。)";
+
+const INITIAL_METHOD_HINTS: Record<InitialMethod, string> = {
+  'least-cost': "最小元素法：优先分配运价最低的路径。",
+  'northwest-corner': "西北角法：从左上角出发，依次满足当前产地或销地，向右或向下移动。",
+  'vogel': "伏格尔法：计算各行各列最小两个运价之差 (罚数)，在罚数最大的行或列中选运价最小的格优先分配。",
+  'russell': "罗素法：取各行各列剩余最大运价 ū_i、v̄_j，计算 Δ_ij = c_ij − ū_i − v̄_j，优先分配 Δ 最小 (最负) 的格。"
+};
+
+const PROBLEM_MODE_LABELS: Record<ProblemMode, string> = {
+  'transportation': '运输问题',
+  'transshipment': '转运问题',
+  'assignment': '指派问题'
+};
+
+const describeExpansion = (network: TransshipmentNetwork) =>
+  `转运点 ${networkLabels(network).cols.slice(0, network.hubCount).join('、')} 同时作为产地和销地，产量和销量各加缓冲库存 B = ${network.buffer}；转运点到自身的运价为 0，表示未被转运的缓冲量，网络中不存在的弧按禁运路线处理。确认后点击“开始求解”。`;
+
+interface HungarianRun {
+  steps: HungarianStep[];
+  assignment: number[];
+  totalCost: number;
+  cursor: number;
+  simplex: ReturnType<typeof solveAssignmentBySimplex>;
+}
+
+const describeHungarianStep = (run: HungarianRun): { message: string; description: string } => {
+  const step = run.steps[run.cursor];
+  const n = step.matrix.length;
+  const stars = step.starred.flat().filter(Boolean).length;
+  switch (step.phase) {
+    case 'initial':
+      return { message: "匈牙利法：成本矩阵", description: `${n}×${n} 指派问题，每名工人恰好完成一项任务。匈牙利法先通过行、列归约使每行每列都出现 0 元素。` };
+    case 'row-reduction':
+      return { message: "第 1 步：行归约", description: `每行减去本行最小元素 (${step.reductions!.map((x, r) => `${workerLabel(r)}: ${x}`).join('，')})，每行至少出现一个 0。` };
+    case 'col-reduction':
+      return { message: "第 2 步：列归约", description: `每列再减去本列最小元素 (${step.reductions!.map((x, c) => `${jobLabel(c)}: ${x}`).join('，')})，得到缩减矩阵。` };
+    case 'cover':
+      return { message: "试指派与最少直线覆盖", description: `最多只能选出 ${stars} 个位于不同行、不同列的独立零元素 (★)，用 ${countLines(step)} 条直线即可覆盖所有 0 元素，少于 ${n} 条，尚不能完成指派。` };
+    case 'adjust':
+      return { message: "调整缩减矩阵", description: `未被直线覆盖的元素中最小值为 ${step.minUncovered}：未覆盖元素减去 ${step.minUncovered}，直线交叉处元素加上 ${step.minUncovered}，其余元素不变。` };
+    case 'optimal': {
+      const pairs = run.assignment.map((c, r) => `${workerLabel(r)}→${jobLabel(c)}`).join('，');
+      const check = run.simplex.cost === null
+        ? "运输单纯形法未能在迭代上限内收敛。"
+        : `运输单纯形法 (产销量均为 1) 经 ${run.simplex.iterations} 轮得到总成本 ${run.simplex.cost}，${run.simplex.cost === run.totalCost ? '与匈牙利法一致' : '与匈牙利法不一致'}；其初始基含 ${run.simplex.degenerateCells} 个退化的 0 基变量。`;
+      return { message: "最优指派达成！", description: `找到 ${n} 个独立零元素 (★)，最优指派为 ${pairs}，总成本 ${run.totalCost}。${check}` };
+    }
+  }
+};
+
+const CAPACITATED_LABEL = "容量受限最小元素法";
+
+// States a round passes through; auto-solve and "下一轮" advance them on a timer
+const ROUND_STATUSES: SolverState['status'][] = ['ready', 'potentials', 'stepping-stone', 'deltas', 'loop'];
+
+// Explains a pivot whose θ is 0 or ties between several loop cells
+const describeDegeneratePivot = (pivot: Pick<Extract<EngineStep, { kind: 'pivot' }>, 'theta' | 'leaving' | 'tiedNodes' | 'isDegenerate'>) => {
+  if (!pivot.isDegenerate) return "";
+  const name = (n: LoopNode) => `x${n.r + 1}${n.c + 1}`;
+  const parts: string[] = [];
+  if (pivot.theta === 0) parts.push("θ = 0，这是一次退化迭代：运输方案不变，只更换基变量。");
+  if (pivot.tiedNodes.length > 0 && pivot.leaving) {
+    parts.push(`θ 出现并列：${[pivot.leaving, ...pivot.tiedNodes].map(name).join('、')} 同时达到界限，仅 ${name(pivot.leaving)} 出基，其余作为 0 基变量保留，保证基变量仍为 m + n - 1 个。`);
+  }
+  return parts.join('');
+};
+
+const alternativeNote = (grid: Cell[][]) =>
+  findZeroDeltaCells(grid).length > 0 ? " 存在检验数为 0 的非基变量，问题有多重最优解，可选中黄色格查看其他最优方案。" : "";
+
+// Bounded-variable sign rule: a route held at capacity is optimal with the opposite sign
+const upperBoundNote = (grid: Cell[][]) =>
+  grid.some(row => row.some(c => !c.isBasin && c.atUpperBound)) ? " (处于容量上界的非基变量检验数符号相反即为最优)" : "";
+
+const CAPACITATED_HINT = "存在路线容量上限：在容量内按运价从低到高分配，剩余运量沿增广路径调整，再以 m + n - 1 个基变量构成生成树，满载路线作为处于上界的非基变量。";
+
+// Every SolverState the run went through, one per sub-step; index points at the one on screen
+interface Timeline {
+  states: SolverState[];
+  index: number;
+}
 
 const App: React.FC = () => {
   // --- Configuration State ---
-  const [config, setConfig] = useState({ rows: 3, cols: 4 });
+  const [config, setConfig] = useState({ rows: 3, cols: 4, hubs: 1 });
+  const [mode, setMode] = useState<ProblemMode>('transportation');
+  const [initialMethod, setInitialMethod] = useState<InitialMethod>('least-cost');
+  const [optimalityMethod, setOptimalityMethod] = useState<OptimalityMethod>('modi');
+  // Degeneracy treatment: zero basic cells on a spanning tree, or the textbook ε perturbation
+  const [usePerturbation, setUsePerturbation] = useState(false);
+  const [pivotRule, setPivotRule] = useState<PivotRule>('most-negative');
 
   // --- AI Settings State ---
   const [showAiSettings, setShowAiSettings] = useState(false);
@@ -27,15 +199,62 @@ const App: React.FC = () => {
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   // --- Problem State ---
+  // The draft is what the user edits; the problem is fixed once solving starts
+  const [draft, setDraft] = useState<ProblemDraft | null>(null);
   const [problem, setProblem] = useState<ProblemState | null>(null);
+  const draftCheck = draft ? parseProblemDraft(draft) : null;
+  // Transshipment mode edits the network first and solves its expanded tableau
+  const [transshipmentDraft, setTransshipmentDraft] = useState<TransshipmentDraft | null>(null);
+  const [network, setNetwork] = useState<TransshipmentNetwork | null>(null);
+  const transshipmentCheck = transshipmentDraft ? parseTransshipmentDraft(transshipmentDraft) : null;
+  // Assignment mode runs the Hungarian method on an n×n cost matrix instead of the tableau
+  const [assignmentDraft, setAssignmentDraft] = useState<string[][] | null>(null);
+  const [hungarian, setHungarian] = useState<HungarianRun | null>(null);
+  const assignmentCheck = assignmentDraft ? parseAssignment(assignmentDraft) : null;
 
   const [solver, setSolver] = useState<SolverState>({
     grid: [], u: [], v: [], totalCost: 0,
-    status: 'input', message: "请配置问题规模", stepDescription: "选择产地和销地数量，生成平衡型运输问题。", iteration: 0
+    status: 'input', message: "请配置问题规模", stepDescription: "选择产地和销地数量，随机生成或手动输入平衡型运输问题。", iteration: 0
   });
 
   const [history, setHistory] = useState<LogEntry[]>([]);
+  const [timeline, setTimeline] = useState<Timeline>({ states: [], index: -1 });
+  // Set while a snapshot is being put back, so restoring it is not recorded as a new step
+  const restoringRef = useRef(false);
+  // Log entry ids; several entries can be added within the same millisecond
+  const logIdRef = useRef(0);
   const [isAutoSolving, setIsAutoSolving] = useState(false);
+  const [isPlayingInitial, setIsPlayingInitial] = useState(false);
+  // Iteration being played by "下一轮", one sub-step per tick like auto-solve
+  const [roundIteration, setRoundIteration] = useState<number | null>(null);
+  const isPlaying = isAutoSolving || roundIteration !== null;
+  // Cell inspected in the sensitivity panel once optimal
+  const [selectedCell, setSelectedCell] = useState<{ r: number; c: number } | null>(null);
+  // The plan as the tableau or as a bipartite network of shipments
+  const [planView, setPlanView] = useState<'grid' | 'network'>('grid');
+  // Practice mode: at each 'ready' state the student works the iteration before it is revealed
+  const [practiceMode, setPracticeMode] = useState(false);
+  const [practiceScore, setPracticeScore] = useState<PracticeScore>({ correct: 0, total: 0, hints: 0 });
+  // Completed runs on the current problem, overlaid in the convergence chart
+  const [convergenceRuns, setConvergenceRuns] = useState<{ signature: string; series: ConvergenceSeries[] }>({ signature: '', series: [] });
+
+  // Open a share link on load and whenever another one is pasted into the address bar
+  useEffect(() => {
+    const onHashChange = () => { if (isShareHash(window.location.hash)) restoreSession(window.location.hash); };
+    onHashChange();
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // Keep the address bar pointing at the current problem, settings and iteration
+  useEffect(() => {
+    const shareable = !!draft && !network && parseProblemDraft(draft).errors.length === 0;
+    const iteration = problem && solver.status !== 'input' && solver.status !== 'initial' ? solver.iteration : 0;
+    const hash = shareable
+      ? encodeShareHash(draft!, { method: initialMethod, optimality: optimalityMethod, rule: pivotRule, perturbed: usePerturbation, iteration })
+      : '';
+    if (hash !== window.location.hash) window.history.replaceState(null, '', hash || window.location.pathname + window.location.search);
+  }, [draft, network, problem, solver.status, solver.iteration, initialMethod, optimalityMethod, pivotRule, usePerturbation]);
 
   // Auto scroll chat
   useEffect(() => {
@@ -45,151 +264,521 @@ const App: React.FC = () => {
   // Auto Solve Effect
   useEffect(() => {
     let timer: number;
-    if (isAutoSolving && solver.status === 'ready') {
-      timer = window.setTimeout(() => { handleNextIteration(); }, 500); 
-    } else if (solver.status === 'optimal') {
+    const inRound = roundIteration === solver.iteration && ROUND_STATUSES.includes(solver.status);
+    if (roundIteration !== null && !inRound) setRoundIteration(null);
+    if ((isAutoSolving || inRound) && ROUND_STATUSES.includes(solver.status)) {
+      // Each sub-step is its own state, so every one of them gets a timeline snapshot
+      timer = window.setTimeout(() => { handleNextStep(true); }, solver.status === 'ready' ? 500 : 1000);
+    } else if ((isAutoSolving || isPlayingInitial) && solver.status === 'initial') {
+      // Reveal the initial solution one allocation at a time
+      timer = window.setTimeout(() => { handleNextStep(); }, 400);
+    } else if (solver.status === 'optimal' || solver.status === 'infeasible') {
       setIsAutoSolving(false);
     }
+    if (solver.status !== 'initial') setIsPlayingInitial(false);
     return () => clearTimeout(timer);
-  }, [isAutoSolving, solver.status]);
+  }, [isAutoSolving, isPlayingInitial, roundIteration, solver]);
+
+  // Snapshot every new solver state; a step taken after undo drops the redo branch and its log entries
+  useEffect(() => {
+    if (restoringRef.current) {
+      restoringRef.current = false;
+      return;
+    }
+    const index = timeline.index + 1;
+    setTimeline({ states: [...timeline.states.slice(0, index), solver], index });
+    setHistory(prev => prev
+      .filter(log => log.snapshot === undefined || log.snapshot < index)
+      .map(log => log.snapshot === undefined ? { ...log, snapshot: index } : log));
+  }, [solver]);
+
+  // A finished solve joins the convergence chart so later runs with other settings can be compared against it.
+  // The timeline does not hold the optimal state yet, the snapshot effect adds it in this same render
+  useEffect(() => {
+    if (!problem || solver.status !== 'optimal') return;
+    const run = [...timeline.states.slice(0, timeline.index + 1), solver];
+    addConvergenceRuns(problem, [recordedSeries(run, problem, initialMethod, optimalityMethod, pivotRule)]);
+  }, [solver.status]);
+
+  // Undo: Ctrl/⌘+Z, redo: Ctrl/⌘+Shift+Z or Ctrl/⌘+Y; left to the browser while typing
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        jumpTo(timeline.index - 1);
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        jumpTo(timeline.index + 1);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [timeline, isPlaying]);
 
   // --- Actions ---
 
+  const jumpTo = (index: number) => {
+    const target = timeline.states[index];
+    if (!target || index === timeline.index || isPlaying) return;
+    restoringRef.current = true;
+    setIsPlayingInitial(false);
+    setSolver(target);
+    setTimeline(prev => ({ ...prev, index }));
+  };
+
+  // Runs replace earlier curves with the same settings; runs on other data start a new chart
+  const addConvergenceRuns = (problem: ProblemState, runs: ConvergenceSeries[]) => {
+    const signature = problemSignature(problem);
+    setConvergenceRuns(prev => {
+      const kept = prev.signature === signature ? prev.series.filter(s => !runs.some(run => run.key === s.key)) : [];
+      return { signature, series: [...kept, ...runs] };
+    });
+  };
+
+  // Adds the round's score, then lets the solver show the same iteration
+  const handlePracticeFinish = (score: PracticeScore) => {
+    setPracticeScore(prev => ({ correct: prev.correct + score.correct, total: prev.total + score.total, hints: prev.hints + score.hints }));
+    addLog(solver.iteration, "练习", `本轮答对 ${score.correct}/${score.total} 项，使用提示 ${score.hints} 次`, score.correct === score.total ? 'success' : 'info');
+    handleNextIteration();
+  };
+
+  const handleCompareRuns = (vary: 'method' | 'rule') => {
+    if (!problem) return;
+    const runs = vary === 'method'
+      ? (hasCapacities(problem) ? [initialMethod] : Object.keys(INITIAL_METHOD_LABELS) as InitialMethod[]).map(method => convergenceSeries(problem, method, optimalityMethod, pivotRule))
+      : (Object.keys(PIVOT_RULE_LABELS) as PivotRule[]).map(rule => convergenceSeries(problem, initialMethod, optimalityMethod, rule));
+    addConvergenceRuns(problem, runs);
+  };
+
   const addLog = (iter: number, phase: string, desc: string, type: 'info' | 'success' | 'warning' | 'error' = 'info', cost?: number) => {
+    const id = ++logIdRef.current;
     setHistory(prev => [...prev, {
-      id: Date.now(), iteration: iter, phase, description: desc, cost: cost ?? solver.totalCost, type
+      id, iteration: iter, phase, description: desc, cost: cost ?? solver.totalCost, type
     }]);
   };
 
-  const handleGenerate = () => {
-    setIsAutoSolving(false);
-    const newProblem = generateRandomProblem(config.rows, config.cols);
-    setProblem(newProblem);
-    const emptyGrid = createEmptyGrid(newProblem.rowCount, newProblem.colCount, newProblem.costs);
+  const addLogs = (logs: PendingLog[]) =>
+    logs.forEach(log => addLog(log.iteration, log.phase, log.description, log.type, log.cost));
 
+  const openDraft = (newDraft: ProblemDraft) => {
+    setIsAutoSolving(false);
+    setDraft(newDraft);
+    setProblem(null);
+    setNetwork(null);
     setSolver({
-      grid: emptyGrid, u: new Array(newProblem.rowCount).fill(null), v: new Array(newProblem.colCount).fill(null),
+      grid: [], u: new Array(newDraft.supply.length).fill(null), v: new Array(newDraft.demand.length).fill(null),
       totalCost: 0, status: 'input', message: "运输表已构建",
-      stepDescription: "请确认单位运价、产量和销量。点击“开始求解”以使用最小元素法生成初始基可行解。", iteration: 0
+      stepDescription: "可直接在表中修改单位运价、产量和销量。确认无误后选择初始解方法并点击“开始求解”生成初始基可行解。", iteration: 0
     });
     setHistory([]);
+    setTimeline({ states: [], index: -1 });
+    setPracticeScore({ correct: 0, total: 0, hints: 0 });
     setChatMessages([]); // Reset chat on new problem
   };
 
+  const handleGenerate = () => openDraft(problemToDraft(generateRandomProblem(config.rows, config.cols)));
+
+  const handleManualInput = () => openDraft(createBlankDraft(config.rows, config.cols));
+
+  const handleFillRandom = () => {
+    if (!draft) return;
+    setDraft({ ...problemToDraft(generateRandomProblem(draft.supply.length, draft.demand.length)), dummyCost: draft.dummyCost, objective: draft.objective, prohibited: draft.prohibited, capacities: draft.capacities });
+  };
+
+  const handleImport = (imported: ProblemDraft) => {
+    setMode('transportation');
+    openDraft(imported);
+    setSolver(prev => ({ ...prev, message: "问题已导入", stepDescription: `已导入 ${imported.supply.length} × ${imported.demand.length} 运输问题。${prev.stepDescription}` }));
+  };
+
+  // Opens the linked problem and replays the solve up to the linked iteration
+  const restoreSession = (hash: string) => {
+    const { draft: linked, session, errors } = decodeShareHash(hash);
+    if (!linked || !session) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      setSolver(prev => ({ ...prev, message: "分享链接无效", stepDescription: `${errors.join('；')}。请重新生成问题，或请对方重新复制链接。` }));
+      return;
+    }
+    setMode('transportation');
+    setInitialMethod(session.method);
+    setOptimalityMethod(session.optimality);
+    setPivotRule(session.rule);
+    setUsePerturbation(session.perturbed);
+    openDraft(linked);
+    setSolver(prev => ({ ...prev, message: "已从分享链接打开问题" }));
+    if (session.iteration === 0) return;
+
+    const { problem: parsed } = parseProblemDraft(linked);
+    if (!parsed) return;
+    const problem = session.perturbed ? perturbProblem(parsed) : parsed;
+    let replay: ReturnType<typeof runPivots>;
+    try {
+      replay = runPivots(problem, session.method, session.optimality, session.rule, session.iteration - 1);
+    } catch {
+      return;
+    }
+    const iteration = replay.pivots + 1;
+    const cost = calculateTotalCost(replay.grid);
+    setProblem(problem);
+    setSolver({
+      grid: replay.grid, u: new Array(problem.rowCount).fill(null), v: new Array(problem.colCount).fill(null),
+      totalCost: cost, status: 'ready', message: `迭代 ${iteration}: 已从分享链接恢复`,
+      stepDescription: `按链接中的设置 (${INITIAL_METHOD_LABELS[session.method]}，${PIVOT_RULE_LABELS[session.rule]}) 重新求解到第 ${iteration} 轮。点击“下一步”继续。`,
+      iteration, visitedBases: replay.visitedBases, cyclingDetected: replay.cyclingDetected
+    });
+    addLog(iteration, "分享链接", `从链接恢复到第 ${iteration} 轮`, 'info', cost);
+  };
+
+  const handleReset = () => {
+    setDraft(null);
+    setProblem(null);
+    setNetwork(null);
+  };
+
+  const handleAssignmentStart = () => {
+    if (!assignmentCheck?.costs) return;
+    const costs = assignmentCheck.costs;
+    setHungarian({ ...solveHungarian(costs), cursor: 0, simplex: solveAssignmentBySimplex(costs) });
+  };
+
+  const moveHungarian = (offset: number) =>
+    setHungarian(prev => prev && { ...prev, cursor: Math.min(prev.steps.length - 1, Math.max(0, prev.cursor + offset)) });
+
+  const handleBuildExpanded = () => {
+    if (!transshipmentCheck?.network) return;
+    const expanded = transshipmentCheck.network;
+    openDraft(transshipmentToDraft(expanded));
+    setNetwork(expanded);
+    setSolver(prev => ({ ...prev, message: "扩展运输表已构建", stepDescription: describeExpansion(expanded) }));
+  };
+
   const handleStart = () => {
-    if (!problem) return;
-    const initialGrid = solveLeastCost(problem);
-    const cost = calculateTotalCost(initialGrid);
+    if (!draft) return;
+    setSelectedCell(null);
+    const { problem: parsed } = parseProblemDraft(draft);
+    if (!parsed) return;
+    const problem = usePerturbation ? perturbProblem(parsed) : parsed;
+    setProblem(problem);
+    const steps: AllocationStep[] = [];
+    const grid = createEmptyGrid(problem.rowCount, problem.colCount, problem.costs, problem);
+    const u = new Array(problem.rowCount).fill(null);
+    const v = new Array(problem.colCount).fill(null);
+    try {
+      solveInitial(problem, initialMethod, step => steps.push(step));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      setSolver({ grid, u, v, totalCost: 0, status: 'infeasible', message: "问题不可行", stepDescription: message, iteration: 0 });
+      addLog(0, "初始化", message, 'error', 0);
+      return;
+    }
+    const label = hasCapacities(problem) ? CAPACITATED_LABEL : INITIAL_METHOD_LABELS[initialMethod];
+    const hint = hasCapacities(problem) ? CAPACITATED_HINT : INITIAL_METHOD_HINTS[initialMethod];
     const newState: SolverState = {
-      grid: initialGrid, u: new Array(problem.rowCount).fill(null), v: new Array(problem.colCount).fill(null),
-      totalCost: cost, status: 'ready', message: "初始基可行解 (IBFS)",
-      stepDescription: "最小元素法：优先分配运价最低的路径。这是第一次迭代的起点。", iteration: 1
+      grid,
+      u, v,
+      totalCost: 0, status: 'initial', message: `构造初始解 (${label})`,
+      stepDescription: `${hint}${problem.objective === 'max' ? MAX_OBJECTIVE_HINT : ''}共需分配 ${steps.length} 个基变量格。`, iteration: 0,
+      allocationSteps: steps, allocationCursor: 0
     };
     setSolver(newState);
-    addLog(1, "初始化", "生成初始可行解 (最小元素法)", 'info', cost);
+    setIsPlayingInitial(true);
+    if (problem.dummy === 'destination') {
+      addLog(0, "平衡", `总产量大于总销量，添加虚拟销地 D${problem.colCount} (销量 ${formatAllocation(problem.demand[problem.colCount - 1])})`, 'warning', 0);
+    } else if (problem.dummy === 'source') {
+      addLog(0, "平衡", `总销量大于总产量，添加虚拟产地 S${problem.rowCount} (产量 ${formatAllocation(problem.supply[problem.rowCount - 1])})`, 'warning', 0);
+    }
+    if (problem.perturbed) {
+      addLog(0, "ε 扰动", `各产量加 ε，D${problem.colCount} 销量加 ${problem.rowCount}ε，避免退化`, 'info', 0);
+    }
   };
 
-  const handleNextStep = () => {
-    if (!problem) return;
-    setSolver(prev => {
-      let nextState = { ...prev };
-      switch (prev.status) {
-        case 'ready':
-          const { u, v } = calculatePotentials(prev.grid, problem.rowCount, problem.colCount);
-          nextState.u = u; nextState.v = v; nextState.status = 'potentials';
-          nextState.message = `迭代 ${prev.iteration}: 计算位势`;
-          nextState.stepDescription = `根据基变量满足 u_i + v_j = c_ij 的条件，求解各行各列的位势。`;
-          return nextState;
-        case 'potentials':
-          const { grid: g1, minDelta, enteringCell } = calculateOpportunityCosts(prev.grid, prev.u, prev.v);
-          if (minDelta >= 0) {
-            nextState.grid = g1; nextState.status = 'optimal'; nextState.message = "最优解达成！";
-            nextState.stepDescription = "所有非基变量检验数 Δ_ij ≥ 0，无法继续优化。";
-            addLog(prev.iteration, "检验", "所有检验数 ≥ 0，达到最优", 'success', prev.totalCost);
-          } else {
-            if (enteringCell) g1[enteringCell.r][enteringCell.c].highlight = 'entering';
-            nextState.grid = g1; nextState.status = 'deltas';
-            nextState.message = `迭代 ${prev.iteration}: 检验非优`;
-            nextState.stepDescription = `发现最小检验数 ${minDelta} (小于0)。选定该单元格为调入变量，需要调整运输方案。`;
-            addLog(prev.iteration, "检验", `发现负检验数 ${minDelta}，需优化`, 'warning');
-          }
-          return nextState;
-        case 'deltas':
-          let en = { r: -1, c: -1 };
-          prev.grid.forEach(r => r.forEach(c => { if (c.highlight === 'entering') en = { r: c.row, c: c.col }; }));
-          const loop = findLoop(en, prev.grid);
-          if (loop) {
-            const g2 = prev.grid.map(r => r.map(c => ({...c})));
-            loop.forEach((node, idx) => { if (idx > 0) g2[node.r][node.c].highlight = idx % 2 === 0 ? 'loop-plus' : 'loop-minus'; });
-            nextState.grid = g2; nextState.status = 'loop'; nextState.message = `迭代 ${prev.iteration}: 构建闭回路`;
-            nextState.stepDescription = "找到闭回路。偶数点(+)增加运量，奇数点(-)减少运量。计算调整量 θ。";
-          }
-          return nextState;
-        case 'loop':
-          let en2 = { r: -1, c: -1 };
-          prev.grid.forEach(r => r.forEach(c => { if (c.highlight === 'entering') en2 = { r: c.row, c: c.col }; }));
-          const loop2 = findLoop(en2, prev.grid);
-          if (loop2) {
-             const { newGrid, theta } = applyPivot(prev.grid, loop2);
-             const newCost = calculateTotalCost(newGrid);
-             const clean = newGrid.map(r => r.map(c => ({ ...c, opportunityCost: undefined, highlight: 'none' as const })));
-             nextState.grid = clean; nextState.totalCost = newCost;
-             nextState.u = new Array(problem.rowCount).fill(null); nextState.v = new Array(problem.colCount).fill(null);
-             nextState.status = 'ready'; nextState.iteration = prev.iteration + 1;
-             nextState.message = `迭代 ${prev.iteration + 1}: 调整完成，准备检验`;
-             nextState.stepDescription = `调整运量 θ=${theta}，总运费更新为 ¥${newCost}。现在点击“下一步”开始计算新方案的位势和检验数。`;
-             addLog(prev.iteration, "调整", `调整运量 θ=${theta}，运费降至 ${newCost}`, 'info', newCost);
-          }
-          return nextState;
-        default: return prev;
+  // State after showing one engine step, and what to log; `rest` is what the iteration still has to show.
+  // `summarize` shows the stepping-stone loops as one step instead of one empty cell at a time
+  const showStep = (prev: SolverState, step: EngineStep, rest: EngineStep[], summarize = false): StepResult => {
+    if (!problem) return { state: prev, logs: [] };
+    const terms = OBJECTIVE_TERMS[problem.objective];
+    const nextState: SolverState = { ...prev, pendingSteps: rest.length > 0 ? rest : undefined };
+    const logs: PendingLog[] = [];
+    const log = (phase: string, description: string, type: PendingLog['type'], cost = prev.totalCost) =>
+      logs.push({ iteration: prev.iteration, phase, description, type, cost });
+    switch (step.kind) {
+      case 'potentials':
+        nextState.u = step.u; nextState.v = step.v; nextState.status = 'potentials';
+        nextState.message = `迭代 ${prev.iteration}: 计算位势`;
+        nextState.stepDescription = `根据基变量满足 u_i + v_j = c_ij 的条件，求解各行各列的位势。`;
+        return { state: nextState, logs };
+      case 'stepping-stone':
+        if (step.evaluations.length === 0) return rest.length > 0 ? showStep(prev, rest[0], rest.slice(1), summarize) : { state: prev, logs };
+        nextState.status = 'stepping-stone';
+        if (summarize) {
+          nextState.evaluations = undefined; nextState.evaluationCursor = undefined;
+          nextState.message = `迭代 ${prev.iteration}: 闭回路法`;
+          nextState.stepDescription = "为每个空格构造闭回路，计算其检验数。";
+          return { state: nextState, logs };
+        }
+        nextState.grid = revealEvaluation(prev.grid, step.evaluations, 0);
+        nextState.evaluations = step.evaluations; nextState.evaluationCursor = 0;
+        nextState.message = `迭代 ${prev.iteration}: 闭回路法 1/${step.evaluations.length}`;
+        nextState.stepDescription = describeSteppingStone(step.evaluations[0], prev.grid);
+        return { state: nextState, logs };
+      case 'deltas': {
+        const crossCheck = step.matchesModi === undefined ? ""
+          : step.matchesModi ? " (与位势法 MODI 计算的检验数完全一致)" : " (注意：与位势法结果不一致，基可能退化)";
+        nextState.evaluations = undefined; nextState.evaluationCursor = undefined;
+        nextState.grid = step.grid;
+        // A verdict is shown together with the Δ that justify it
+        const verdict = rest[0];
+        if (verdict?.kind === 'infeasible') {
+          nextState.status = 'infeasible'; nextState.message = "问题不可行"; nextState.pendingSteps = undefined;
+          nextState.stepDescription = describeInfeasible(verdict.blockedFlow);
+          log("检验", "最优方案仍使用禁运路线，问题不可行", 'error');
+        } else if (verdict?.kind === 'optimal') {
+          nextState.status = 'optimal'; nextState.message = "最优解达成！"; nextState.pendingSteps = undefined;
+          nextState.optimalSolutions = [verdict.grid];
+          nextState.stepDescription = `所有非基变量检验数 Δ_ij ${terms.optimal}${upperBoundNote(verdict.grid)}，无法继续优化。${crossCheck}${alternativeNote(verdict.grid)}`;
+          log("检验", `所有检验数 ${terms.optimal}，达到最优`, 'success');
+        } else {
+          const entering = step.enteringCell && step.grid[step.enteringCell.r][step.enteringCell.c];
+          nextState.status = 'deltas';
+          nextState.message = `迭代 ${prev.iteration}: 检验非优`;
+          nextState.stepDescription = entering?.atUpperBound
+            ? `满载路线检验数 ${step.enteringDelta} 符号与最优条件相反，减少其运量可改进方案，选定为调入变量。${crossCheck}`
+            : `${describeEntering(step.rule, terms, step.enteringDelta)}。选定该单元格为调入变量，需要调整运输方案。${crossCheck}`;
+          log("检验", `发现${terms.improving}检验数 ${step.enteringDelta}，需优化 (${PIVOT_RULE_LABELS[step.rule]})`, 'warning');
+        }
+        return { state: nextState, logs };
       }
-    });
+      case 'loop':
+        nextState.grid = step.grid; nextState.status = 'loop'; nextState.message = `迭代 ${prev.iteration}: 构建闭回路`;
+        nextState.stepDescription = step.grid[step.entering.r][step.entering.c].atUpperBound
+          ? "找到闭回路。调入格处于容量上界，需减少其运量：偶数点(-)减少运量，奇数点(+)增加运量。θ 取 (-) 格运量与 (+) 格剩余容量中的最小值。"
+          : "找到闭回路。偶数点(+)增加运量，奇数点(-)减少运量。计算调整量 θ。";
+        return { state: nextState, logs };
+      case 'pivot': {
+        const { visitedBases, cyclingDetected, repeated } = recordBasis({ visitedBases: prev.visitedBases ?? [], cyclingDetected: !!prev.cyclingDetected }, step.grid);
+        nextState.visitedBases = visitedBases; nextState.cyclingDetected = cyclingDetected;
+        if (repeated !== -1) log("防循环", `第 ${prev.iteration + 1} 轮的基与第 ${repeated + 1} 轮相同，出现循环，自动切换为 Bland 规则`, 'warning');
+        nextState.grid = step.grid; nextState.totalCost = step.cost;
+        nextState.u = new Array(problem.rowCount).fill(null); nextState.v = new Array(problem.colCount).fill(null);
+        nextState.status = 'ready'; nextState.iteration = prev.iteration + 1;
+        nextState.message = `迭代 ${prev.iteration + 1}: 调整完成，准备检验`;
+        nextState.stepDescription = `调整运量 θ=${formatAllocation(step.theta)}，${terms.total}更新为 ¥${step.cost}。${describeDegeneratePivot(step)}现在点击“下一步”开始计算新方案的位势和检验数。`;
+        log("调整", `调整运量 θ=${formatAllocation(step.theta)}，${terms.total}${terms.changed} ${step.cost}`, step.isDegenerate ? 'warning' : 'info', step.cost);
+        return { state: nextState, logs };
+      }
+      case 'optimal':
+      case 'infeasible':
+        // Only reached without a preceding 'deltas', which the engine never produces
+        return { state: prev, logs };
+      case 'error':
+        nextState.status = 'infeasible'; nextState.message = "求解中止"; nextState.pendingSteps = undefined;
+        nextState.stepDescription = step.message;
+        log("错误", step.message, 'error');
+        return { state: nextState, logs };
+    }
   };
 
-  const handleNextIteration = async () => {
-    if (!problem) return;
-    const currentGrid = solver.grid;
-    const currentIteration = solver.iteration;
-
-    const { u, v } = calculatePotentials(currentGrid, problem.rowCount, problem.colCount);
-    setSolver(prev => ({ ...prev, u, v, status: 'potentials', message: `迭代 ${currentIteration}: 计算位势`, stepDescription: "根据基变量计算行位势 u 和列位势 v。" }));
-    await delay(1000);
+  // Engine steps of the iteration starting from this basis
+  const iterationSteps = (state: SolverState) => iterateBasis(state.grid, {
+    optimality: optimalityMethod, objective: problem!.objective, rule: state.cyclingDetected ? 'bland' : pivotRule
+  });
 
-    const { grid: g1, minDelta, enteringCell } = calculateOpportunityCosts(currentGrid, u, v);
-    if (minDelta >= 0) {
-        setSolver(prev => ({ ...prev, grid: g1, status: 'optimal', message: "最优解达成！", stepDescription: "所有非基变量检验数 ≥ 0。", totalCost: calculateTotalCost(g1) }));
-        addLog(currentIteration, "检验", "所有检验数 ≥ 0，达到最优", 'success', calculateTotalCost(g1));
-        return;
-    }
+  // Next state of the step-by-step run; unchanged when there is nothing left to show
+  const nextStep = (prev: SolverState, summarize = false): StepResult => {
+    if (!problem) return { state: prev, logs: [] };
+    const nextState = { ...prev };
+    const logs: PendingLog[] = [];
 
-    let loopToDisplay = null;
-    let gridWithLoop = g1;
-    if (enteringCell) {
-        g1[enteringCell.r][enteringCell.c].highlight = 'entering';
-        loopToDisplay = findLoop(enteringCell, g1);
-        if (loopToDisplay) {
-             gridWithLoop = g1.map(row => row.map(cell => ({...cell})));
-             loopToDisplay.forEach((node, idx) => { if (idx > 0) gridWithLoop[node.r][node.c].highlight = idx % 2 === 0 ? 'loop-plus' : 'loop-minus'; });
+    switch (prev.status) {
+      case 'initial': {
+        const steps = prev.allocationSteps ?? [];
+        const cursor = prev.allocationCursor ?? 0;
+        const step = steps[cursor];
+        if (!step) return { state: prev, logs };
+        const label = hasCapacities(problem) ? CAPACITATED_LABEL : INITIAL_METHOD_LABELS[initialMethod];
+        const g0: Cell[][] = prev.grid.map(r => r.map(c => ({ ...c, highlight: 'none' as const })));
+        g0[step.r][step.c] = { ...g0[step.r][step.c], allocation: step.allocation, isBasin: !step.atUpperBound, atUpperBound: step.atUpperBound, highlight: 'entering' };
+        const cost = calculateTotalCost(g0);
+        nextState.totalCost = cost;
+        nextState.allocationCursor = cursor + 1;
+        if (step.chosenLine) {
+          const penalties = step.chosenLine.type === 'row' ? step.rowPenalties : step.colPenalties;
+          logs.push({ iteration: 0, phase: label, description: `${lineName(step.chosenLine)} 罚数 ${penalties?.[step.chosenLine.index]} 最大，x${step.r + 1}${step.c + 1} = ${formatAllocation(step.allocation)}`, type: 'info', cost });
         }
+        if (cursor + 1 < steps.length) {
+          nextState.grid = g0;
+          nextState.message = `构造初始解 (${label}): ${cursor + 1}/${steps.length}`;
+          nextState.stepDescription = describeAllocation(label, step, problem.objective);
+          return { state: nextState, logs };
+        }
+        nextState.grid = g0.map(r => r.map(c => ({ ...c, highlight: 'none' as const })));
+        nextState.status = 'ready'; nextState.iteration = 1;
+        nextState.allocationSteps = undefined; nextState.allocationCursor = undefined;
+        nextState.visitedBases = [basisKey(nextState.grid)];
+        nextState.message = `初始基可行解 (IBFS) - ${label}`;
+        nextState.stepDescription = `${hasCapacities(problem) ? CAPACITATED_HINT : INITIAL_METHOD_HINTS[initialMethod]}这是第一次迭代的起点。`;
+        logs.push({ iteration: 1, phase: "初始化", description: `生成初始可行解 (${label})`, type: 'info', cost });
+        return { state: nextState, logs };
+      }
+      case 'stepping-stone': {
+        const evaluations = prev.evaluations ?? [];
+        const cursor = (prev.evaluationCursor ?? 0) + 1;
+        if (!summarize && cursor < evaluations.length) {
+          nextState.grid = revealEvaluation(prev.grid, evaluations, cursor);
+          nextState.evaluationCursor = cursor;
+          nextState.message = `迭代 ${prev.iteration}: 闭回路法 ${cursor + 1}/${evaluations.length}`;
+          nextState.stepDescription = describeSteppingStone(evaluations[cursor], prev.grid);
+          return { state: nextState, logs };
+        }
+        break;
+      }
+      case 'ready': case 'potentials': case 'deltas': case 'loop':
+        break;
+      default: return { state: prev, logs };
     }
-    setSolver(prev => ({ ...prev, grid: gridWithLoop, status: 'loop', message: `迭代 ${currentIteration}: 寻找闭回路`, stepDescription: `最小检验数 Δ=${minDelta}。构建闭回路准备调整。` }));
-    await delay(1000);
-
-    if (loopToDisplay) {
-        const { newGrid, theta } = applyPivot(gridWithLoop, loopToDisplay);
-        const clean = newGrid.map(row => row.map(c => ({ ...c, opportunityCost: undefined, highlight: 'none' as const })));
-        const newCost = calculateTotalCost(clean);
-        setSolver(prev => ({
-            ...prev, grid: clean, u: new Array(problem.rowCount).fill(null), v: new Array(problem.colCount).fill(null),
-            status: 'ready', iteration: currentIteration + 1, totalCost: newCost,
-            message: `迭代 ${currentIteration + 1}: 调整完成`, stepDescription: `调整量 θ=${theta}，运费降至 ¥${newCost}。`
-        }));
-        addLog(currentIteration, "调整", `调整运量 θ=${theta}，运费降至 ${newCost}`, 'info', newCost);
-    }
+
+    const [step, ...rest] = prev.status === 'ready' ? iterationSteps(prev) : prev.pendingSteps ?? [];
+    return step ? showStep(prev, step, rest, summarize) : { state: prev, logs };
+  };
+
+  // Updaters stay pure (StrictMode runs them twice), so the log is written after the state is set
+  const handleNextStep = (summarize = false) => {
+    const { state, logs } = nextStep(solver, summarize);
+    if (state === solver) return;
+    setSolver(state);
+    addLogs(logs);
+  };
+
+  // Plays one whole iteration through the step timer; a verdict ends the round early
+  const handleNextIteration = () => {
+    if (!problem) return;
+    setRoundIteration(solver.iteration);
+    handleNextStep(true);
+  };
+
+  // Zero-Δ pivot at the optimum: same objective, possibly a different plan
+  const handlePivotAlternative = (r: number, c: number) => {
+    if (!problem || solver.status !== 'optimal') return;
+    const result = pivotAlternative(solver.grid, { r, c }, problem.objective);
+    if (!result) return;
+    const known = solver.optimalSolutions ?? [solver.grid];
+    const isNew = !known.some(g => allocationKey(g) === allocationKey(result.grid));
+    const route = `(S${r + 1}, D${c + 1})`;
+    const description = result.theta === 0
+      ? `调入 ${route} 的调整量 θ = 0，运输方案不变，只发生了基变换 (退化)。`
+      : `调入检验数为 0 的 ${route}，调整量 θ=${formatAllocation(result.theta)}，${OBJECTIVE_TERMS[problem.objective].total}不变，得到${isNew ? '新的' : '已找到的'}最优方案。`;
+    setSolver(prev => ({
+      ...prev, grid: result.grid, u: result.u, v: result.v,
+      optimalSolutions: isNew ? [...known, result.grid] : known,
+      stepDescription: `${description}${alternativeNote(result.grid)}`
+    }));
+    addLog(solver.iteration, "多重最优", `调入 ${route}，θ=${formatAllocation(result.theta)}${isNew ? '，发现新最优方案' : ''}`, 'info', solver.totalCost);
+  };
+
+  const handleSelectSolution = (index: number) => {
+    const solution = solver.optimalSolutions?.[index];
+    if (!problem || !solution) return;
+    const { u, v } = calculatePotentials(solution, problem.rowCount, problem.colCount);
+    setSolver(prev => ({ ...prev, grid: solution, u, v, stepDescription: `显示第 ${index + 1} 个最优方案。${alternativeNote(solution)}` }));
+  };
+
+  const handleEnumerateOptima = () => {
+    if (!problem || solver.status !== 'optimal') return;
+    const known = solver.optimalSolutions ?? [solver.grid];
+    const found = enumerateAlternativeOptima(solver.grid, problem.objective)
+      .filter(g => !known.some(k => allocationKey(k) === allocationKey(g)));
+    setSolver(prev => ({ ...prev, optimalSolutions: [...known, ...found] }));
+    addLog(solver.iteration, "多重最优", `枚举完毕，共 ${known.length + found.length} 个不同的最优方案`, 'success', solver.totalCost);
+  };
+
+  // The report re-solves with the current settings so every iteration is included, not just the logged ones
+  const handleExportReport = (format: ReportFormat) => {
+    if (!problem) return;
+    const report = generateReport({ problem, method: initialMethod, optimality: optimalityMethod, rule: pivotRule, rowLabels: labels?.rows, colLabels: labels?.cols }, format);
+    downloadText(format === 'html' ? 'transportation-report.html' : 'transportation-report.md', report, format === 'html' ? 'text/html' : 'text/markdown');
+  };
+
+  // 'state' exports the tableau on screen, 'solution' a full document with every iteration
+  const handleExportLatex = (scope: 'state' | 'solution') => {
+    if (!problem) return;
+    const tex = scope === 'state'
+      ? solverStateToLatex(solver, problem, { rowLabels: labels?.rows, colLabels: labels?.cols })
+      : solutionToLatex({ problem, method: initialMethod, optimality: optimalityMethod, rule: pivotRule, rowLabels: labels?.rows, colLabels: labels?.cols });
+    downloadText(scope === 'state' ? `tableau-${solver.iteration}.tex` : 'transportation-solution.tex', tex, 'application/x-tex');
   };
 
   const handleAutoSolve = () => { setIsAutoSolving(true); if (solver.status === 'input') handleStart(); };
 
+  const canStart = !!draftCheck && draftCheck.errors.length === 0;
+  const terms = OBJECTIVE_TERMS[problem?.objective ?? draft?.objective ?? 'min'];
+
+  // Switchable before solving and between iterations
+  const optimalityToggle = (
+    <div>
+      <label className="text-xs font-bold text-slate-500 mb-1 block">检验数计算方法</label>
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(OPTIMALITY_METHOD_LABELS) as OptimalityMethod[]).map(method => (
+          <button key={method} onClick={() => setOptimalityMethod(method)} className={clsx(
+            "py-2 rounded-lg border text-xs font-bold transition-all",
+            optimalityMethod === method ? "bg-indigo-50 border-indigo-500 text-indigo-700 ring-1 ring-indigo-500" : "border-slate-200 text-slate-600 hover:bg-slate-50"
+          )}>{OPTIMALITY_METHOD_LABELS[method]}</button>
+        ))}
+      </div>
+    </div>
+  );
+  const pivotRuleToggle = (
+    <div>
+      <label className="text-xs font-bold text-slate-500 mb-1 block">进基规则</label>
+      <div className="grid grid-cols-2 gap-2">
+        {(Object.keys(PIVOT_RULE_LABELS) as PivotRule[]).map(rule => (
+          <button key={rule} onClick={() => setPivotRule(rule)} className={clsx(
+            "py-2 rounded-lg border text-xs font-bold transition-all",
+            pivotRule === rule ? "bg-indigo-50 border-indigo-500 text-indigo-700 ring-1 ring-indigo-500" : "border-slate-200 text-slate-600 hover:bg-slate-50"
+          )}>{PIVOT_RULE_LABELS[rule]}</button>
+        ))}
+      </div>
+      {solver.cyclingDetected && <p className="mt-1 text-[11px] text-orange-600">已检测到循环，本次求解改用 Bland 规则。</p>}
+    </div>
+  );
+  const isDraftUnbalanced = !!draft && sumDraftValues(draft.supply) !== sumDraftValues(draft.demand);
+  const finalPotentials = problem && solver.status === 'optimal' ? calculatePotentials(solver.grid, problem.rowCount, problem.colCount) : null;
+  const dummySummary = problem && solver.status === 'optimal' ? summarizeDummyAllocation(solver.grid, problem) : [];
+  // Four complete solves, so only redone when the problem or the settings change
+  const ruleComparison = useMemo(
+    () => problem && solver.status === 'optimal'
+      ? (Object.keys(PIVOT_RULE_LABELS) as PivotRule[]).map(rule => ({ rule, ...countPivots(problem, initialMethod, optimalityMethod, rule) }))
+      : [],
+    [problem, initialMethod, optimalityMethod, solver.status]
+  );
+  // While the loop is shown: its θ limits and the cell that the pivot will drive out of the basis
+  const loopPreview: LoopPreview | null = problem && solver.status === 'loop' ? (() => {
+    const entering = solver.grid.flat().find(c => c.highlight === 'entering');
+    const loop = entering ? findLoop({ r: entering.row, c: entering.col }, solver.grid) : null;
+    const pivot = findStep(solver.pendingSteps ?? [], 'pivot');
+    return loop && pivot ? { loop, limits: loopLimits(solver.grid, loop), leaving: pivot.leaving } : null;
+  })() : null;
+  // The run in the tableau, revealed pivot by pivot as the solve proceeds
+  const isSolving = !!problem && !['input', 'initial', 'infeasible'].includes(solver.status);
+  const activeSeries = useMemo(
+    () => problem && isSolving ? convergenceSeries(problem, initialMethod, optimalityMethod, pivotRule) : null,
+    [problem, isSolving, initialMethod, optimalityMethod, pivotRule]
+  );
+  const savedRuns = activeSeries && convergenceRuns.signature === problemSignature(problem!) ? convergenceRuns.series : [];
+  const chartSeries = !activeSeries ? []
+    : savedRuns.some(s => s.key === activeSeries.key) ? savedRuns.map(s => s.key === activeSeries.key ? activeSeries : s)
+    : [...savedRuns, activeSeries];
+  const arcFlows = network && solver.status === 'optimal' ? mapArcFlows(solver.grid, network) : [];
+  const labels = network ? networkLabels(network, problem?.dummy ?? null) : null;
+  // The status card follows the Hungarian run while the assignment matrix is shown
+  const isAssignmentView = !draft && mode === 'assignment' && !!assignmentDraft;
+  const assignmentStatus = hungarian ? describeHungarianStep(hungarian) : { message: "指派问题", description: "填写成本矩阵后点击“开始求解”，逐步演示匈牙利法：行归约、列归约、最少直线覆盖与矩阵调整。" };
+  const cardStatus = isAssignmentView ? (hungarian && hungarian.cursor === hungarian.steps.length - 1 ? 'optimal' : 'input') : solver.status;
+  const cardMessage = isAssignmentView ? assignmentStatus.message : solver.message;
+  const cardDescription = isAssignmentView ? assignmentStatus.description : solver.stepDescription;
+
   // --- AI Logic ---
   const handleSendMessage = async (customText?: string) => {
     const text = customText || userInput;
@@ -252,42 +841,206 @@ const App: React.FC = () => {
         <div className="col-span-12 lg:col-span-3 flex flex-col gap-4 max-h-[calc(100vh-100px)] lg:sticky lg:top-24">
            <div className="bg-white rounded-2xl p-5 shadow-sm border border-slate-200">
               <h2 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-4 flex items-center gap-2"><List className="w-4 h-4" /> 问题配置</h2>
-              {!problem ? (
+              {!draft && mode === 'assignment' && assignmentDraft ? (
+                <div className="space-y-4">
+                  {hungarian ? (
+                    <>
+                      <div className="flex justify-between items-end border-b border-slate-100 pb-4">
+                        <div><div className="text-xs text-slate-500 mb-1">匈牙利法步骤</div><div className="text-2xl font-mono font-bold text-indigo-600">{hungarian.cursor + 1} / {hungarian.steps.length}</div></div>
+                        {hungarian.cursor === hungarian.steps.length - 1 && <div className="text-right"><div className="text-xs text-slate-500 mb-1">总成本</div><div className="text-lg font-mono font-bold text-slate-700">{hungarian.totalCost}</div></div>}
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <button onClick={() => moveHungarian(-1)} disabled={hungarian.cursor === 0} className="py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-lg font-bold text-xs disabled:opacity-50">上一步</button>
+                        <button onClick={() => moveHungarian(1)} disabled={hungarian.cursor === hungarian.steps.length - 1} className="py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-xs flex items-center justify-center gap-1 disabled:opacity-50"><ArrowRight className="w-3 h-3" /> 下一步</button>
+                      </div>
+                      <button onClick={() => moveHungarian(hungarian.steps.length)} className="w-full py-2 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-bold text-xs flex items-center justify-center gap-1"><FastForward className="w-3 h-3" /> 直接查看结果</button>
+                      <button onClick={() => setHungarian(null)} className="w-full py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-xl font-bold flex items-center justify-center gap-2 text-sm"><PenLine className="w-3 h-3" /> 修改成本矩阵</button>
+                    </>
+                  ) : (
+                    <>
+                      <div className="text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg p-2">
+                        在右侧填写第 i 名工人完成第 j 项任务的成本 c_ij。每名工人只做一项任务，每项任务只由一人完成。
+                      </div>
+                      {assignmentCheck && assignmentCheck.errors.length > 0 && (
+                        <ul className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg p-2 space-y-1">
+                          {assignmentCheck.errors.map((err, idx) => <li key={idx} className="flex items-start gap-1"><AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {err}</li>)}
+                        </ul>
+                      )}
+                      <button onClick={handleAssignmentStart} disabled={!assignmentCheck?.costs} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"><Play className="w-5 h-5 fill-current" /> 开始求解</button>
+                      <div className="grid grid-cols-2 gap-2">
+                        <button onClick={() => setAssignmentDraft(generateRandomAssignment(assignmentDraft.length))} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><Shuffle className="w-3 h-3" /> 随机填充</button>
+                        <button onClick={() => setAssignmentDraft(null)} className="py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><RotateCcw className="w-3 h-3" /> 重置</button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ) : !draft && mode === 'transshipment' && transshipmentDraft ? (
+                <div className="space-y-4">
+                  <div className="text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg p-2">
+                    在右侧填写各条弧的单位运价 (留空表示无此弧) 以及产地产量、销地销量。转运点不产不销，只中转货物。
+                  </div>
+                  {transshipmentCheck && transshipmentCheck.errors.length > 0 && (
+                    <ul className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg p-2 space-y-1">
+                      {transshipmentCheck.errors.map((err, idx) => <li key={idx} className="flex items-start gap-1"><AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {err}</li>)}
+                    </ul>
+                  )}
+                  <button onClick={handleBuildExpanded} disabled={!transshipmentCheck?.network} className="w-full py-2.5 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-bold text-sm disabled:opacity-50 disabled:cursor-not-allowed">生成扩展运输表</button>
+                  <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => setTransshipmentDraft(generateRandomTransshipment(transshipmentDraft.supply.length, transshipmentDraft.hubCount, transshipmentDraft.demand.length))} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><Shuffle className="w-3 h-3" /> 随机填充</button>
+                    <button onClick={() => setTransshipmentDraft(null)} className="py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><RotateCcw className="w-3 h-3" /> 重置</button>
+                  </div>
+                </div>
+              ) : !draft ? (
                 <div className="space-y-4">
+                  <div className="grid grid-cols-3 gap-2">
+                    {(Object.keys(PROBLEM_MODE_LABELS) as ProblemMode[]).map(m => (
+                      <button key={m} onClick={() => setMode(m)} className={clsx(
+                        "py-2 rounded-lg border text-xs font-bold transition-all",
+                        mode === m ? "bg-indigo-50 border-indigo-500 text-indigo-700 ring-1 ring-indigo-500" : "border-slate-200 text-slate-600 hover:bg-slate-50"
+                      )}>{PROBLEM_MODE_LABELS[m]}</button>
+                    ))}
+                  </div>
+                  {mode === 'assignment' ? (
+                    <div>
+                      <label className="text-xs font-bold text-slate-500 mb-1 block">工人数 = 任务数 (n)</label>
+                      <div className="flex items-center gap-2 bg-slate-50 p-1 rounded-lg border border-slate-200">
+                        <button onClick={() => setConfig(p => ({...p, rows: Math.max(MIN_DIMENSION, p.rows-1)}))} className="p-2 hover:bg-white rounded"><Minus className="w-3 h-3"/></button>
+                        <span className="flex-1 text-center font-mono font-bold">{config.rows}</span>
+                        <button onClick={() => setConfig(p => ({...p, rows: Math.min(MAX_ASSIGNMENT_SIZE, p.rows+1)}))} className="p-2 hover:bg-white rounded"><Plus className="w-3 h-3"/></button>
+                      </div>
+                    </div>
+                  ) : (
                   <div className="grid grid-cols-2 gap-4">
                     <div>
                       <label className="text-xs font-bold text-slate-500 mb-1 block">产地数 (Rows)</label>
                       <div className="flex items-center gap-2 bg-slate-50 p-1 rounded-lg border border-slate-200">
-                        <button onClick={() => setConfig(p => ({...p, rows: Math.max(2, p.rows-1)}))} className="p-2 hover:bg-white rounded"><Minus className="w-3 h-3"/></button>
+                        <button onClick={() => setConfig(p => ({...p, rows: Math.max(MIN_DIMENSION, p.rows-1)}))} className="p-2 hover:bg-white rounded"><Minus className="w-3 h-3"/></button>
                         <span className="flex-1 text-center font-mono font-bold">{config.rows}</span>
-                        <button onClick={() => setConfig(p => ({...p, rows: Math.min(6, p.rows+1)}))} className="p-2 hover:bg-white rounded"><Plus className="w-3 h-3"/></button>
+                        <button onClick={() => setConfig(p => ({...p, rows: Math.min(MAX_DIMENSION, p.rows+1)}))} className="p-2 hover:bg-white rounded"><Plus className="w-3 h-3"/></button>
                       </div>
                     </div>
                     <div>
                       <label className="text-xs font-bold text-slate-500 mb-1 block">销地数 (Cols)</label>
                       <div className="flex items-center gap-2 bg-slate-50 p-1 rounded-lg border border-slate-200">
-                        <button onClick={() => setConfig(p => ({...p, cols: Math.max(2, p.cols-1)}))} className="p-2 hover:bg-white rounded"><Minus className="w-3 h-3"/></button>
+                        <button onClick={() => setConfig(p => ({...p, cols: Math.max(MIN_DIMENSION, p.cols-1)}))} className="p-2 hover:bg-white rounded"><Minus className="w-3 h-3"/></button>
                         <span className="flex-1 text-center font-mono font-bold">{config.cols}</span>
-                        <button onClick={() => setConfig(p => ({...p, cols: Math.min(6, p.cols+1)}))} className="p-2 hover:bg-white rounded"><Plus className="w-3 h-3"/></button>
+                        <button onClick={() => setConfig(p => ({...p, cols: Math.min(MAX_DIMENSION, p.cols+1)}))} className="p-2 hover:bg-white rounded"><Plus className="w-3 h-3"/></button>
                       </div>
                     </div>
                   </div>
-                  <button onClick={handleGenerate} className="w-full py-2.5 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-bold text-sm">构造运输表</button>
+                  )}
+                  {mode === 'assignment' ? (
+                    <>
+                      <button onClick={() => setAssignmentDraft(generateRandomAssignment(config.rows))} className="w-full py-2.5 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-bold text-sm">构造指派矩阵</button>
+                      <button onClick={() => setAssignmentDraft(createBlankAssignment(config.rows))} className="w-full py-2.5 bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 rounded-lg font-bold text-sm flex items-center justify-center gap-2"><PenLine className="w-4 h-4" /> 手动输入</button>
+                    </>
+                  ) : mode === 'transshipment' ? (
+                    <>
+                      <div>
+                        <label className="text-xs font-bold text-slate-500 mb-1 block">转运点数 (Hubs)</label>
+                        <div className="flex items-center gap-2 bg-slate-50 p-1 rounded-lg border border-slate-200">
+                          <button onClick={() => setConfig(p => ({...p, hubs: Math.max(1, p.hubs-1)}))} className="p-2 hover:bg-white rounded"><Minus className="w-3 h-3"/></button>
+                          <span className="flex-1 text-center font-mono font-bold">{config.hubs}</span>
+                          <button onClick={() => setConfig(p => ({...p, hubs: Math.min(MAX_HUBS, p.hubs+1)}))} className="p-2 hover:bg-white rounded"><Plus className="w-3 h-3"/></button>
+                        </div>
+                      </div>
+                      {(config.rows + config.hubs > MAX_DIMENSION || config.cols + config.hubs > MAX_DIMENSION) && (
+                        <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2 flex items-start gap-1"><AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> 扩展运输表行列数不能超过 {MAX_DIMENSION}，请减少节点数。</div>
+                      )}
+                      <button onClick={() => setTransshipmentDraft(generateRandomTransshipment(config.rows, config.hubs, config.cols))} className="w-full py-2.5 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2"><Network className="w-4 h-4" /> 构造转运网络</button>
+                      <button onClick={() => setTransshipmentDraft(createBlankTransshipmentDraft(config.rows, config.hubs, config.cols))} className="w-full py-2.5 bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 rounded-lg font-bold text-sm flex items-center justify-center gap-2"><PenLine className="w-4 h-4" /> 手动输入</button>
+                    </>
+                  ) : (
+                    <>
+                    <button onClick={handleGenerate} className="w-full py-2.5 bg-slate-800 hover:bg-slate-900 text-white rounded-lg font-bold text-sm">构造运输表</button>
+                    <button onClick={handleManualInput} className="w-full py-2.5 bg-white border border-slate-200 text-slate-700 hover:bg-slate-50 rounded-lg font-bold text-sm flex items-center justify-center gap-2"><PenLine className="w-4 h-4" /> 手动输入</button>
+                    </>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-4">
                   <div className="flex justify-between items-end border-b border-slate-100 pb-4">
-                    <div><div className="text-xs text-slate-500 mb-1">当前总运费</div><div className="text-2xl font-mono font-bold text-indigo-600">¥ {solver.totalCost}</div></div>
+                    <div><div className="text-xs text-slate-500 mb-1">当前{terms.total}</div><div className="text-2xl font-mono font-bold text-indigo-600">¥ {solver.totalCost}</div></div>
                     <div className="text-right"><div className="text-xs text-slate-500 mb-1">迭代轮次</div><div className="text-lg font-mono font-bold text-slate-700">{solver.iteration}</div></div>
                   </div>
                   <div className="flex flex-col gap-2">
                     {solver.status === 'input' ? (
-                      <button onClick={handleStart} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold flex items-center justify-center gap-2"><Play className="w-5 h-5 fill-current" /> 开始求解</button>
+                      <>
+                        {draft && (
+                          <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+                            <div className="bg-slate-50 border border-slate-200 rounded-lg p-2"><div className="text-slate-400">总产量</div><div className="font-bold text-slate-700">{sumDraftValues(draft.supply)}</div></div>
+                            <div className="bg-slate-50 border border-slate-200 rounded-lg p-2"><div className="text-slate-400">总销量</div><div className="font-bold text-slate-700">{sumDraftValues(draft.demand)}</div></div>
+                          </div>
+                        )}
+                        {isDraftUnbalanced && draft && (
+                          <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2 space-y-2">
+                            <div className="flex items-start gap-1"><AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> 产销不平衡，求解时将自动添加{sumDraftValues(draft.supply) > sumDraftValues(draft.demand) ? '虚拟销地' : '虚拟产地'}。</div>
+                            <label className="flex items-center justify-between gap-2 font-bold">
+                              虚拟路线单位惩罚成本
+                              <input value={draft.dummyCost} inputMode="numeric" onChange={(e) => setDraft({ ...draft, dummyCost: e.target.value })} className="w-16 px-2 py-1 text-center font-mono bg-white border border-amber-300 rounded focus:outline-none focus:ring-2 focus:ring-amber-400" />
+                            </label>
+                          </div>
+                        )}
+                        {draft && !network && (
+                          <div>
+                            <label className="text-xs font-bold text-slate-500 mb-1 block">目标</label>
+                            <div className="grid grid-cols-2 gap-2">
+                              {(Object.keys(OBJECTIVE_TERMS) as Objective[]).map(objective => (
+                                <button key={objective} onClick={() => setDraft({ ...draft, objective })} className={clsx(
+                                  "py-2 rounded-lg border text-xs font-bold transition-all",
+                                  draft.objective === objective ? "bg-indigo-50 border-indigo-500 text-indigo-700 ring-1 ring-indigo-500" : "border-slate-200 text-slate-600 hover:bg-slate-50"
+                                )}>{OBJECTIVE_TERMS[objective].label}</button>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        <div>
+                          <label className="text-xs font-bold text-slate-500 mb-1 block">初始解方法</label>
+                          <div className="grid grid-cols-2 gap-2">
+                            {(Object.keys(INITIAL_METHOD_LABELS) as InitialMethod[]).map(method => (
+                              <button key={method} onClick={() => setInitialMethod(method)} className={clsx(
+                                "py-2 rounded-lg border text-xs font-bold transition-all",
+                                initialMethod === method ? "bg-indigo-50 border-indigo-500 text-indigo-700 ring-1 ring-indigo-500" : "border-slate-200 text-slate-600 hover:bg-slate-50"
+                              )}>{INITIAL_METHOD_LABELS[method]}</button>
+                            ))}
+                          </div>
+                        </div>
+                        {optimalityToggle}
+                        {pivotRuleToggle}
+                        <div>
+                          <label className="text-xs font-bold text-slate-500 mb-1 block">退化处理</label>
+                          <div className="grid grid-cols-2 gap-2">
+                            {[false, true].map(perturb => (
+                              <button key={String(perturb)} onClick={() => setUsePerturbation(perturb)} className={clsx(
+                                "py-2 rounded-lg border text-xs font-bold transition-all",
+                                usePerturbation === perturb ? "bg-indigo-50 border-indigo-500 text-indigo-700 ring-1 ring-indigo-500" : "border-slate-200 text-slate-600 hover:bg-slate-50"
+                              )} title={perturb ? "各产量加 ε，最后一个销量加 mε，运量以 k + jε 显示" : "在连通不同分量的空格补 0，使基变量构成生成树"}>{perturb ? 'ε 扰动法' : '补 0 基变量'}</button>
+                            ))}
+                          </div>
+                        </div>
+                        {draftCheck && draftCheck.errors.length > 0 && (
+                          <ul className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg p-2 space-y-1">
+                            {draftCheck.errors.map((err, idx) => <li key={idx} className="flex items-start gap-1"><AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {err}</li>)}
+                          </ul>
+                        )}
+                        <button onClick={handleStart} disabled={!canStart} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"><Play className="w-5 h-5 fill-current" /> 开始求解</button>
+                        <div className={clsx("grid gap-2", network ? "grid-cols-1" : "grid-cols-2")}>
+                          {!network && <button onClick={handleFillRandom} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><Shuffle className="w-3 h-3" /> 随机填充</button>}
+                          <button onClick={handleReset} className="py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><RotateCcw className="w-3 h-3" /> 重置</button>
+                        </div>
+                      </>
                     ) : (
                       <>
-                        {solver.status !== 'optimal' && !isAutoSolving && (
+                        {solver.status !== 'optimal' && solver.status !== 'infeasible' && !isPlaying && !(practiceMode && solver.status === 'ready') && (
                           <>
-                             <button onClick={handleNextStep} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold flex items-center justify-center gap-2"><ArrowRight className="w-5 h-5" /> 下一步 (Step)</button>
+                             <button onClick={() => handleNextStep()} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold flex items-center justify-center gap-2"><ArrowRight className="w-5 h-5" /> 下一步 (Step)</button>
+                             {solver.status === 'initial' && (
+                                <button onClick={() => setIsPlayingInitial(p => !p)} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1">
+                                  {isPlayingInitial ? <><Pause className="w-3 h-3" /> 暂停</> : <><Play className="w-3 h-3" /> 播放分配过程</>}
+                                </button>
+                             )}
+                             {solver.status === 'ready' && optimalityToggle}
+                             {solver.status === 'ready' && pivotRuleToggle}
                              {solver.status === 'ready' && (
                                 <div className="grid grid-cols-2 gap-2 mt-1">
                                     <button onClick={handleNextIteration} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1 disabled:opacity-50"><Zap className="w-3 h-3" /> 下一轮</button>
@@ -296,23 +1049,57 @@ const App: React.FC = () => {
                               )}
                           </>
                         )}
-                        {isAutoSolving && <button onClick={() => setIsAutoSolving(false)} className="w-full py-3 bg-red-500 hover:bg-red-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 animate-pulse"><Minus className="w-4 h-4" /> 停止</button>}
-                        {!isAutoSolving && <button onClick={() => setProblem(null)} className="w-full py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-xl font-bold flex items-center justify-center gap-2 text-sm mt-2"><RotateCcw className="w-3 h-3" /> 重置</button>}
+                        {!isPlaying && solver.status !== 'initial' && (
+                          <button onClick={() => setPracticeMode(p => !p)} className={clsx("w-full py-2 rounded-lg font-bold text-xs flex items-center justify-center gap-1 border", practiceMode ? "bg-amber-100 text-amber-800 border-amber-300" : "bg-white text-slate-600 border-slate-200 hover:bg-slate-50")}>
+                            <GraduationCap className="w-3 h-3" /> {practiceMode ? `练习模式 · 得分 ${practiceScore.correct}/${practiceScore.total}` : '练习模式'}
+                          </button>
+                        )}
+                        {solver.status === 'optimal' && (
+                          <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => handleExportReport('html')} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><FileText className="w-3 h-3" /> 报告 (HTML)</button>
+                            <button onClick={() => handleExportReport('markdown')} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><FileText className="w-3 h-3" /> 报告 (Markdown)</button>
+                            <button onClick={() => handleExportLatex('solution')} className="col-span-2 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><FileText className="w-3 h-3" /> LaTeX (全过程)</button>
+                          </div>
+                        )}
+                        {isPlaying && <button onClick={() => { setIsAutoSolving(false); setRoundIteration(null); }} className="w-full py-3 bg-red-500 hover:bg-red-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 animate-pulse"><Minus className="w-4 h-4" /> 停止</button>}
+                        {!isPlaying && <button onClick={handleReset} className="w-full py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-xl font-bold flex items-center justify-center gap-2 text-sm mt-2"><RotateCcw className="w-3 h-3" /> 重置</button>}
                       </>
                     )}
                   </div>
                 </div>
               )}
            </div>
+           {(draft ? !network : mode === 'transportation') && (
+             <ProblemExchange draft={draft} grid={solver.status === 'input' ? null : solver.grid} onImport={handleImport} shareable={!!draft && !network} />
+           )}
            {problem && (
              <div className="bg-white rounded-2xl shadow-sm border border-slate-200 flex-1 overflow-hidden flex flex-col min-h-[300px]">
-                <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center"><h2 className="text-sm font-bold text-slate-500 uppercase flex items-center gap-2"><List className="w-4 h-4" /> 记录</h2></div>
+                <div className="p-4 border-b border-slate-100 bg-slate-50 flex justify-between items-center"><h2 className="text-sm font-bold text-slate-500 uppercase flex items-center gap-2"><List className="w-4 h-4" /> 记录</h2>
+                  <div className="flex items-center gap-1">
+                    <button onClick={() => jumpTo(timeline.index - 1)} disabled={timeline.index <= 0 || isPlaying} title="撤销 (Ctrl+Z)" className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-200 disabled:opacity-30 disabled:hover:bg-transparent"><Undo2 className="w-4 h-4" /></button>
+                    <button onClick={() => jumpTo(timeline.index + 1)} disabled={timeline.index >= timeline.states.length - 1 || isPlaying} title="重做 (Ctrl+Shift+Z)" className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-200 disabled:opacity-30 disabled:hover:bg-transparent"><Redo2 className="w-4 h-4" /></button>
+                  </div>
+                </div>
+                {timeline.states.length > 1 && (
+                  <div className="px-4 py-2 border-b border-slate-100 flex items-center gap-3">
+                    <input
+                      type="range" min={0} max={timeline.states.length - 1} value={timeline.index}
+                      onChange={(e) => jumpTo(Number(e.target.value))} disabled={isPlaying}
+                      className="flex-1 accent-indigo-600"
+                    />
+                    <span className="text-[10px] font-mono font-bold text-slate-400 whitespace-nowrap">{timeline.index + 1}/{timeline.states.length}</span>
+                  </div>
+                )}
                 <div className="flex-1 overflow-y-auto p-4 space-y-5 custom-scrollbar relative">
                   <div className="absolute left-6 top-4 bottom-4 w-0.5 bg-slate-100"></div>
                   {history.length === 0 && <div className="text-center text-slate-400 text-sm py-8 relative z-10">暂无记录</div>}
                   {history.map((log) => (
-                    <div key={log.id} className="relative pl-8 z-10">
-                      <div className={clsx("absolute left-[1px] top-1.5 w-4 h-4 rounded-full border-2 bg-white", log.type === 'success' ? "border-green-500" : log.type === 'warning' ? "border-orange-500" : "border-indigo-400")}></div>
+                    <div
+                      key={log.id}
+                      onClick={() => log.snapshot !== undefined && jumpTo(log.snapshot)}
+                      className={clsx("relative pl-8 z-10 rounded-lg cursor-pointer hover:bg-slate-50", log.snapshot === timeline.index && "bg-indigo-50/70", log.snapshot !== undefined && log.snapshot > timeline.index && "opacity-40")}
+                    >
+                      <div className={clsx("absolute left-[1px] top-1.5 w-4 h-4 rounded-full border-2 bg-white", log.type === 'success' ? "border-green-500" : log.type === 'warning' ? "border-orange-500" : log.type === 'error' ? "border-red-500" : "border-indigo-400")}></div>
                       <div className="flex flex-col"><div className="flex items-center gap-2 mb-0.5"><span className="text-[10px] font-bold uppercase text-slate-400 bg-slate-100 px-1.5 rounded">#{log.iteration}</span><span className="text-xs font-bold text-slate-500">{log.phase}</span></div><div className="text-sm font-medium text-slate-700">{log.description}</div></div>
                     </div>
                   ))}
@@ -325,16 +1112,58 @@ const App: React.FC = () => {
         <div className="col-span-12 lg:col-span-6 flex flex-col gap-4">
            {/* Status Card */}
            <div className="bg-white border-l-4 border-indigo-500 rounded-r-xl shadow-sm p-4 flex items-start gap-4 min-h-[100px]">
-              <div className={clsx("p-2 rounded-lg shrink-0", solver.status === 'optimal' ? "bg-green-100 text-green-600" : "bg-indigo-50 text-indigo-600")}>{solver.status === 'optimal' ? <CheckCircle className="w-6 h-6" /> : <Activity className="w-6 h-6" />}</div>
-              <div className="flex-1"><div className="flex justify-between items-start"><h3 className="font-bold text-slate-800 text-lg mb-1">{solver.message}</h3></div><p className="text-slate-600 leading-relaxed text-sm">{solver.stepDescription}</p></div>
+              <div className={clsx("p-2 rounded-lg shrink-0", cardStatus === 'optimal' ? "bg-green-100 text-green-600" : cardStatus === 'infeasible' ? "bg-red-100 text-red-600" : "bg-indigo-50 text-indigo-600")}>{cardStatus === 'optimal' ? <CheckCircle className="w-6 h-6" /> : cardStatus === 'infeasible' ? <AlertCircle className="w-6 h-6" /> : <Activity className="w-6 h-6" />}</div>
+              <div className="flex-1"><div className="flex justify-between items-start"><h3 className="font-bold text-slate-800 text-lg mb-1">{cardMessage}</h3></div><p className="text-slate-600 leading-relaxed text-sm">{cardDescription}</p>
+                {problem?.dummy && solver.status === 'optimal' && (
+                  <div className="mt-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2">
+                    <span className="font-bold">{problem.dummy === 'destination' ? '未发运产量：' : '未满足销量：'}</span>
+                    {dummySummary.length === 0 ? '无' : dummySummary.map(x => `${x.label} ${formatAllocation(x.amount)}`).join('，')}
+                    {dummySummary.length > 0 && `（合计 ${formatAllocation(dummySummary.reduce((a, x) => a + x.amount, 0))}）`}
+                  </div>
+                )}
+                {network && solver.status === 'optimal' && (
+                  <div className="mt-2 text-xs text-teal-800 bg-teal-50 border border-teal-200 rounded-lg p-2">
+                    <div className="font-bold mb-1 flex items-center gap-1"><Network className="w-3 h-3" /> 原网络各弧流量</div>
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 gap-y-0.5 font-mono">
+                      {arcFlows.map(f => <span key={`${f.from}-${f.to}`}>{f.from}→{f.to}: {formatAllocation(f.amount)} (×{f.cost})</span>)}
+                    </div>
+                  </div>
+                )}
+              </div>
            </div>
 
            {/* Tableau Grid */}
            <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-1 overflow-hidden min-h-[500px] flex flex-col">
-              <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50"><h3 className="font-bold text-slate-700 flex items-center gap-2">运输表</h3><div className="flex gap-4 text-xs"><div className="flex items-center gap-1.5"><div className="w-2.5 h-2.5 rounded-sm bg-indigo-100 border border-indigo-300"></div> 基变量</div><div className="flex items-center gap-1.5"><div className="w-2.5 h-2.5 rounded-sm bg-green-100 border border-green-300"></div> 调入</div><div className="flex items-center gap-1.5"><div className="w-2.5 h-2.5 rounded-sm bg-red-100 border border-red-300"></div> 调出</div></div></div>
-              <div className="p-4 flex-1 flex items-center justify-center bg-slate-50/30 overflow-auto">{!problem ? <div className="text-center text-slate-400"><Calculator className="w-16 h-16 mx-auto mb-4 opacity-20" /><p>请在左侧配置并生成问题</p></div> : <Tableau solverState={solver} problem={problem} />}</div>
+              <div className="p-4 border-b border-slate-100 flex justify-between items-center bg-slate-50/50"><h3 className="font-bold text-slate-700 flex items-center gap-2">{network ? '扩展运输表' : !draft && mode === 'transshipment' && transshipmentDraft ? '转运网络' : isAssignmentView ? '指派矩阵' : '运输表'}</h3><div className="flex gap-4 text-xs">{draft && problem && solver.status !== 'input' && (
+                <div className="flex rounded border border-slate-200 bg-white overflow-hidden font-bold">
+                  <button onClick={() => setPlanView('grid')} title="运输表" className={clsx("flex items-center gap-1 px-2 py-0.5", planView === 'grid' ? "bg-indigo-50 text-indigo-700" : "text-slate-500 hover:text-indigo-600")}><Table className="w-3 h-3" /> 表格</button>
+                  <button onClick={() => setPlanView('network')} title="网络流向图" className={clsx("flex items-center gap-1 px-2 py-0.5 border-l border-slate-200", planView === 'network' ? "bg-indigo-50 text-indigo-700" : "text-slate-500 hover:text-indigo-600")}><Workflow className="w-3 h-3" /> 网络</button>
+                </div>
+              )}{draft && problem && solver.status !== 'input' && <button onClick={() => handleExportLatex('state')} title="导出当前表为 LaTeX" className="flex items-center gap-1 px-2 py-0.5 rounded border border-slate-200 bg-white text-slate-500 hover:text-indigo-600 font-bold"><FileText className="w-3 h-3" /> LaTeX</button>}<div className="flex items-center gap-1.5"><div className="w-2.5 h-2.5 rounded-sm bg-indigo-100 border border-indigo-300"></div> 基变量</div><div className="flex items-center gap-1.5"><div className="w-2.5 h-2.5 rounded-sm bg-green-100 border border-green-300"></div> 调入</div><div className="flex items-center gap-1.5"><div className="w-2.5 h-2.5 rounded-sm bg-red-100 border border-red-300"></div> 调出</div></div></div>
+              <div className="p-4 flex-1 flex items-center justify-center bg-slate-50/30 overflow-auto">{isAssignmentView ? <AssignmentTableau draft={assignmentDraft!} onDraftChange={setAssignmentDraft} step={hungarian?.steps[hungarian.cursor]} /> : !draft && mode === 'transshipment' && transshipmentDraft ? <TransshipmentEditor draft={transshipmentDraft} onChange={setTransshipmentDraft} /> : !draft ? <div className="text-center text-slate-400"><Calculator className="w-16 h-16 mx-auto mb-4 opacity-20" /><p>请在左侧配置并生成问题</p></div> : solver.status === 'input' ? <Tableau solverState={solver} problem={problem} draft={draft} onDraftChange={setDraft} rowLabels={labels?.rows} colLabels={labels?.cols} /> : practiceMode && solver.status === 'ready' && problem ? <PracticePanel key={solver.iteration} grid={solver.grid} problem={problem} rule={solver.cyclingDetected ? 'bland' : pivotRule} rowLabels={labels?.rows} colLabels={labels?.cols} onFinish={handlePracticeFinish} /> : planView === 'network' ? <NetworkView solverState={solver} problem={problem} rowLabels={labels?.rows} colLabels={labels?.cols} leaving={loopPreview?.leaving} /> : <Tableau solverState={solver} problem={problem} rowLabels={labels?.rows} colLabels={labels?.cols} onCellClick={(r, c) => setSelectedCell({ r, c })} selectedCell={selectedCell} loopPreview={loopPreview} />}</div>
            </div>
 
+           {problem && activeSeries && (
+             <ConvergenceChart
+               series={chartSeries} activeKey={activeSeries.key} progress={solver.iteration - 1}
+               objective={problem.objective} bigM={problem.bigM}
+               onCompare={handleCompareRuns} onClear={() => setConvergenceRuns({ signature: '', series: [] })}
+             />
+           )}
+           {problem && solver.status === 'optimal' && (
+             <AlternativeOptima solutions={solver.optimalSolutions ?? [solver.grid]} current={solver.grid} onSelect={handleSelectSolution} onEnumerate={handleEnumerateOptima} rowLabels={labels?.rows} colLabels={labels?.cols} />
+           )}
+           {problem && solver.status === 'optimal' && (
+             <PivotRuleComparison results={ruleComparison} activeRule={solver.cyclingDetected ? 'bland' : pivotRule} pivots={solver.iteration - 1} />
+           )}
+           {problem && finalPotentials && (
+             <SensitivityPanel
+               grid={solver.grid} u={finalPotentials.u} v={finalPotentials.v} objective={problem.objective} bigM={problem.bigM}
+               selected={selectedCell} onSelect={(r, c) => setSelectedCell({ r, c })} onPivot={handlePivotAlternative}
+               rowLabels={labels?.rows} colLabels={labels?.cols}
+             />
+           )}
+
            {/* NEW SECTIONS: Formula & Algorithm Hints */}
            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               {/* Formula Section */}
@@ -350,15 +1179,15 @@ const App: React.FC = () => {
                          <div className="relative z-10">
                             <div className="font-mono text-xs text-slate-400 mb-1">Objective Function</div>
                             <div className="font-mono text-lg font-medium text-white tracking-tight">
-                                Total Cost = Σ (x<sub>ij</sub> × c<sub>ij</sub>)
+                                {terms.formula} = Σ (x<sub>ij</sub> × c<sub>ij</sub>)
                             </div>
                          </div>
                       </div>
                   </div>
                   <div className="mt-4 flex justify-between items-end">
-                      <span className="text-xs text-slate-500 font-bold bg-slate-100 px-2 py-1 rounded-md">Min Z</span>
+                      <span className="text-xs text-slate-500 font-bold bg-slate-100 px-2 py-1 rounded-md">{terms.z}</span>
                       <div className="text-right">
-                          <span className="block text-[10px] text-slate-400 mb-0.5">当前总运费</span>
+                          <span className="block text-[10px] text-slate-400 mb-0.5">当前{terms.total}</span>
                           <span className="text-xl font-mono font-bold text-indigo-600">¥ {solver.totalCost}</span>
                       </div>
                   </div>
@@ -377,9 +1206,9 @@ const App: React.FC = () => {
 
                         {/* Steps */}
                         <div className="relative flex items-center gap-3">
-                           <div className={clsx("w-2.5 h-2.5 rounded-full z-10 outline outline-4 outline-white", ['potentials', 'ready', 'input'].includes(solver.status) ? "bg-indigo-500" : "bg-slate-300")}></div>
-                           <div className={clsx("text-xs font-medium transition-colors", ['potentials', 'ready', 'input'].includes(solver.status) ? "text-slate-800" : "text-slate-400")}>
-                               每次迭代：先算位势 u, v
+                           <div className={clsx("w-2.5 h-2.5 rounded-full z-10 outline outline-4 outline-white", ['potentials', 'stepping-stone', 'ready', 'input', 'initial'].includes(solver.status) ? "bg-indigo-500" : "bg-slate-300")}></div>
+                           <div className={clsx("text-xs font-medium transition-colors", ['potentials', 'stepping-stone', 'ready', 'input', 'initial'].includes(solver.status) ? "text-slate-800" : "text-slate-400")}>
+                               {optimalityMethod === 'modi' ? '每次迭代：先算位势 u, v' : '每次迭代：逐个空格找闭回路'}
                            </div>
                         </div>
 
@@ -393,7 +1222,7 @@ const App: React.FC = () => {
                         <div className="relative flex items-center gap-3">
                            <div className={clsx("w-2.5 h-2.5 rounded-full z-10 outline outline-4 outline-white", ['loop'].includes(solver.status) ? "bg-indigo-500 animate-pulse" : ['optimal'].includes(solver.status) ? "bg-indigo-500" : "bg-slate-300")}></div>
                            <div className={clsx("text-xs font-medium transition-colors", ['loop'].includes(solver.status) ? "text-indigo-600 font-bold" : ['optimal'].includes(solver.status) ? "text-slate-800" : "text-slate-400")}>
-                               → 找最小负 Δ 进基 → 找闭回路
+                               → 找{terms.best}{terms.improving} Δ 进基 → 找闭回路
                            </div>
                         </div>
                     </div>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Cell } from '../types';
+import { allocationKey, diffAllocations, findZeroDeltaCells, formatAllocation } from '../utils/solver';
+import clsx from 'clsx';
+import { GitBranch, Layers } from 'lucide-react';
+
+interface AlternativeOptimaProps {
+  solutions: Cell[][][];
+  current: Cell[][];
+  onSelect: (index: number) => void;
+  onEnumerate: () => void;
+  rowLabels?: string[];
+  colLabels?: string[];
+}
+
+// Distinct optimal plans found so far, each described by how it differs from the first one
+const AlternativeOptima: React.FC<AlternativeOptimaProps> = ({ solutions, current, onSelect, onEnumerate, rowLabels, colLabels }) => {
+  const zeroCells = findZeroDeltaCells(current);
+  const currentKey = allocationKey(current);
+  const routeName = (r: number, c: number) => `${rowLabels?.[r] ?? `S${r + 1}`}→${colLabels?.[c] ?? `D${c + 1}`}`;
+
+  if (zeroCells.length === 0 && solutions.length <= 1) {
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 text-xs text-slate-500 flex items-center gap-2">
+        <Layers className="w-4 h-4 text-slate-400" /> 所有非基变量检验数均不为 0，最优方案唯一。
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-amber-200 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-bold text-amber-800 flex items-center gap-2"><GitBranch className="w-4 h-4" /> 多重最优解 (已找到 {solutions.length} 个方案)</h4>
+        <button onClick={onEnumerate} className="px-3 py-1.5 bg-amber-50 hover:bg-amber-100 text-amber-800 border border-amber-200 rounded-lg font-bold text-xs">枚举全部</button>
+      </div>
+      <p className="text-xs text-slate-500">
+        {zeroCells.length > 0
+          ? `当前方案有 ${zeroCells.length} 个检验数为 0 的非基变量 (表中黄色格)，选中后在灵敏度分析中将其调入，即得到目标值相同的另一方案。`
+          : "当前方案已无检验数为 0 的非基变量。"}
+      </p>
+      <ul className="space-y-1.5">
+        {solutions.map((solution, index) => {
+          const changes = diffAllocations(solutions[0], solution);
+          return (
+            <li key={index}>
+              <button onClick={() => onSelect(index)} className={clsx(
+                "w-full text-left px-3 py-2 rounded-lg border text-xs transition-all",
+                allocationKey(solution) === currentKey ? "bg-amber-50 border-amber-400 ring-1 ring-amber-400" : "border-slate-200 hover:bg-slate-50"
+              )}>
+                <span className="font-bold text-slate-700 mr-2">方案 {index + 1}</span>
+                <span className="font-mono text-slate-500">
+                  {index === 0 ? '求解器得到的最优方案' : changes.map(ch => `${routeName(ch.r, ch.c)}: ${formatAllocation(ch.from)}→${formatAllocation(ch.to)}`).join('，')}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default AlternativeOptima;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { HungarianStep } from '../types';
+import { workerLabel, jobLabel } from '../utils/hungarian';
+import clsx from 'clsx';
+import { ArrowRight, Star } from 'lucide-react';
+
+interface AssignmentTableauProps {
+  // Raw cost entries; editable while no step is shown
+  draft: string[][];
+  onDraftChange?: (draft: string[][]) => void;
+  step?: HungarianStep;
+}
+
+const AssignmentTableau: React.FC<AssignmentTableauProps> = ({ draft, onDraftChange, step }) => {
+  const n = draft.length;
+  const editing = !step && !!onDraftChange;
+
+  const updateCost = (r: number, c: number, value: string) => {
+    if (!onDraftChange) return;
+    onDraftChange(draft.map((row, i) => i === r ? row.map((x, j) => j === c ? value : x) : row));
+  };
+
+  // Reductions are listed in the margin of the line they were taken from
+  const rowReductions = step?.phase === 'row-reduction' ? step.reductions : undefined;
+  const colReductions = step?.phase === 'col-reduction' ? step.reductions : undefined;
+  const isCoveredRow = (r: number) => !!step?.coveredRows[r];
+  const isCoveredCol = (c: number) => !!step?.coveredCols[c];
+
+  return (
+    <div className="overflow-x-auto tableau-scroll pb-4 w-full">
+      <div className="inline-block min-w-full">
+        <div className="grid gap-3" style={{ gridTemplateColumns: `auto repeat(${n}, minmax(80px, 1fr)) auto` }}>
+          <div className="p-2 font-bold text-slate-400 text-center flex items-end justify-center text-[10px] uppercase tracking-wider">
+            任务 <ArrowRight className="inline w-3 h-3 ml-1" />
+          </div>
+          {Array.from({ length: n }).map((_, c) => (
+            <div key={`head-${c}`} className={clsx(
+              "p-3 font-bold text-center rounded-xl border",
+              isCoveredCol(c) ? "text-sky-800 bg-sky-100 border-sky-300" : "text-slate-700 bg-slate-100 border-slate-200"
+            )}>
+              {jobLabel(c)}
+            </div>
+          ))}
+          <div className="p-3 font-bold text-indigo-600 text-center bg-indigo-50/50 rounded-xl border border-indigo-100 text-xs">
+            {rowReductions ? '行最小值' : ''}
+          </div>
+
+          {draft.map((row, r) => (
+            <React.Fragment key={`row-${r}`}>
+              <div className={clsx(
+                "flex items-center justify-center p-2 font-bold rounded-xl border",
+                isCoveredRow(r) ? "text-sky-800 bg-sky-100 border-sky-300" : "text-slate-700 bg-slate-100 border-slate-200"
+              )}>
+                {workerLabel(r)}
+              </div>
+              {row.map((value, c) => {
+                if (editing) {
+                  return (
+                    <div key={`cell-${r}-${c}`} className="h-20 border border-slate-200 bg-white rounded-xl flex flex-col items-center justify-center gap-1 px-3">
+                      <span className="text-[10px] font-bold text-slate-400">c<sub>{r + 1}{c + 1}</sub></span>
+                      <input
+                        value={value}
+                        inputMode="numeric"
+                        onChange={(e) => updateCost(r, c, e.target.value)}
+                        className={clsx(
+                          "w-full text-center font-mono font-bold rounded-lg border bg-white py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500",
+                          /^\d+$/.test(value.trim()) ? "border-slate-200 text-slate-700" : "border-red-400 bg-red-50 text-red-600"
+                        )}
+                      />
+                    </div>
+                  );
+                }
+                const entry = step ? step.matrix[r][c] : parseInt(value, 10);
+                const starred = !!step?.starred[r][c];
+                const covered = isCoveredRow(r) || isCoveredCol(c);
+                const crossing = isCoveredRow(r) && isCoveredCol(c);
+                return (
+                  <div
+                    key={`cell-${r}-${c}`}
+                    className={clsx(
+                      "relative h-20 border rounded-xl flex items-center justify-center transition-all duration-300",
+                      starred && step?.phase === 'optimal' ? "ring-4 ring-green-200 border-green-500 bg-green-50"
+                        : starred ? "border-indigo-500 bg-indigo-50"
+                        : crossing ? "border-sky-400 bg-sky-200/70"
+                        : covered ? "border-sky-200 bg-sky-50"
+                        : "border-slate-200 bg-white"
+                    )}
+                  >
+                    {/* Original cost (Top Right) */}
+                    {step && step.phase !== 'initial' && (
+                      <div className="absolute top-1.5 right-2 text-[10px] font-bold text-slate-400 bg-slate-50 border border-slate-100 px-1.5 py-0.5 rounded" title="原始成本">
+                        {value}
+                      </div>
+                    )}
+                    {step?.phase === 'adjust' && step.minUncovered !== undefined && (!covered || crossing) && (
+                      <div className={clsx(
+                        "absolute top-1.5 left-2 text-[10px] font-bold px-1.5 py-0.5 rounded",
+                        crossing ? "text-sky-800 bg-sky-100" : "text-rose-700 bg-rose-100"
+                      )}>
+                        {crossing ? '+' : '−'}{step.minUncovered}
+                      </div>
+                    )}
+                    <div className={clsx("text-2xl font-mono font-bold", entry === 0 ? "text-indigo-700" : "text-slate-500")}>
+                      {entry}
+                    </div>
+                    {starred && <Star className="absolute bottom-1.5 right-2 w-4 h-4 text-amber-500 fill-amber-400" />}
+                  </div>
+                );
+              })}
+              <div className="flex items-center justify-center p-2 font-mono font-bold text-slate-500 bg-slate-50 rounded-xl border border-slate-200/60 min-w-[60px]">
+                {rowReductions && `−${rowReductions[r]}`}
+              </div>
+            </React.Fragment>
+          ))}
+
+          <div className="p-2 font-bold text-indigo-600 bg-indigo-50/50 rounded-xl border border-indigo-100 flex items-center justify-center text-xs">
+            {colReductions ? '列最小值' : ''}
+          </div>
+          {Array.from({ length: n }).map((_, c) => (
+            <div key={`foot-${c}`} className="flex items-center justify-center p-3 font-mono font-bold text-slate-500 bg-slate-50 rounded-xl border border-slate-200/60 min-h-[44px]">
+              {colReductions && `−${colReductions[c]}`}
+            </div>
+          ))}
+          <div className="bg-slate-100 rounded-xl opacity-20"></div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AssignmentTableau;
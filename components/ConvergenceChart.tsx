@@ -0,0 +1,104 @@
+import React from 'react';
+import { ConvergenceSeries, Objective } from '../types';
+import { formatAllocation, formatWithBigM } from '../utils/solver';
+import clsx from 'clsx';
+import { Layers, TrendingDown, X } from 'lucide-react';
+
+interface ConvergenceChartProps {
+  series: ConvergenceSeries[];
+  // Run shown in the tableau: its points are annotated and revealed up to `progress` pivots
+  activeKey: string;
+  progress: number;
+  objective: Objective;
+  bigM: number;
+  onCompare: (vary: 'method' | 'rule') => void;
+  onClear: () => void;
+}
+
+const WIDTH = 600;
+const HEIGHT = 260;
+const PAD = { left: 56, right: 16, top: 24, bottom: 32 };
+const COLORS = ['#6366f1', '#f97316', '#10b981', '#ec4899', '#0ea5e9', '#a855f7', '#eab308', '#64748b'];
+
+// Total cost per iteration of every run on the same problem, overlaid to compare convergence speed
+const ConvergenceChart: React.FC<ConvergenceChartProps> = ({ series, activeKey, progress, objective, bigM, onCompare, onClear }) => {
+  const shown = series.map(s => s.key === activeKey ? { ...s, points: s.points.slice(0, progress + 1) } : s);
+  const points = shown.flatMap(s => s.points);
+  if (points.length === 0) return null;
+
+  const maxIteration = Math.max(1, ...points.map(p => p.iteration));
+  const low = Math.min(...points.map(p => p.cost));
+  const high = Math.max(...points.map(p => p.cost));
+  const span = high - low || Math.max(1, Math.abs(high) * 0.1);
+  const x = (iteration: number) => PAD.left + (iteration / maxIteration) * (WIDTH - PAD.left - PAD.right);
+  const y = (cost: number) => PAD.top + (1 - (cost - low) / span) * (HEIGHT - PAD.top - PAD.bottom);
+  const ticks = [0, 0.5, 1].map(f => low + f * span);
+  const colorOf = (index: number) => COLORS[index % COLORS.length];
+  // ε-perturbed costs are fractional; ticks and labels stay readable when rounded
+  const formatCost = (cost: number) => formatWithBigM(Math.round(cost * 100) / 100, bigM);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <h4 className="text-sm font-bold text-slate-700 flex items-center gap-2"><TrendingDown className="w-4 h-4 text-indigo-500" /> {objective === 'max' ? '总利润' : '总运费'}收敛曲线</h4>
+        <div className="flex gap-1.5 text-xs font-bold">
+          <button onClick={() => onCompare('method')} className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50"><Layers className="w-3 h-3" /> 叠加各初始方法</button>
+          <button onClick={() => onCompare('rule')} className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 text-slate-600 hover:bg-slate-50"><Layers className="w-3 h-3" /> 叠加各进基规则</button>
+          {series.length > 1 && <button onClick={onClear} title="只保留当前求解" className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 text-slate-400 hover:text-red-600"><X className="w-3 h-3" /> 清除</button>}
+        </div>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(tick)} y2={y(tick)} stroke="#f1f5f9" />
+            <text x={PAD.left - 6} y={y(tick)} dy="0.35em" textAnchor="end" fontSize={10} className="fill-slate-400 font-mono">{formatCost(tick)}</text>
+          </g>
+        ))}
+        {Array.from({ length: maxIteration + 1 }, (_, i) => i).filter(i => maxIteration <= 12 || i % Math.ceil(maxIteration / 12) === 0).map(i => (
+          <text key={i} x={x(i)} y={HEIGHT - PAD.bottom + 14} textAnchor="middle" fontSize={10} className="fill-slate-400 font-mono">{i}</text>
+        ))}
+        <text x={WIDTH - PAD.right} y={HEIGHT - 4} textAnchor="end" fontSize={10} className="fill-slate-400">迭代次数</text>
+        <line x1={PAD.left} x2={PAD.left} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#cbd5e1" />
+        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={HEIGHT - PAD.bottom} y2={HEIGHT - PAD.bottom} stroke="#cbd5e1" />
+
+        {/* Other runs first, the active run on top */}
+        {shown.map((s, index) => ({ s, index })).sort((a, b) => Number(a.s.key === activeKey) - Number(b.s.key === activeKey)).map(({ s, index }) => {
+          const active = s.key === activeKey;
+          return (
+            <g key={s.key} opacity={active ? 1 : 0.55}>
+              <polyline points={s.points.map(p => `${x(p.iteration)},${y(p.cost)}`).join(' ')} fill="none" stroke={colorOf(index)} strokeWidth={active ? 2.5 : 1.5} strokeLinejoin="round" />
+              {s.points.map((p, i) => {
+                const note = p.entering
+                  ? `x${p.entering.r + 1}${p.entering.c + 1} Δ${formatWithBigM(p.delta!, bigM)} θ${formatAllocation(p.theta!)}`
+                  : '初始解';
+                return (
+                  <g key={p.iteration}>
+                    <circle cx={x(p.iteration)} cy={y(p.cost)} r={active ? 4 : 3} fill="white" stroke={colorOf(index)} strokeWidth={2}>
+                      <title>{`${s.label}\n第 ${p.iteration} 次：${formatCost(p.cost)}\n${note}`}</title>
+                    </circle>
+                    {/* Annotations alternate above and below the curve so neighbours don't collide */}
+                    {active && (
+                      <text x={x(p.iteration)} y={y(p.cost) + (i % 2 === 0 ? -10 : 16)} textAnchor={i === 0 ? 'start' : p.iteration === maxIteration ? 'end' : 'middle'} fontSize={9} className="fill-slate-600 font-mono">{note}</text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {series.map((s, index) => (
+          <li key={s.key} className={clsx("flex items-center gap-1.5", s.key === activeKey ? "font-bold text-slate-700" : "text-slate-500")}>
+            <span className="w-3 h-0.5 rounded" style={{ backgroundColor: colorOf(index) }}></span>
+            {s.label}：{s.outcome === 'optimal' ? `${s.points.length - 1} 次迭代` : s.outcome === 'infeasible' ? '不可行' : '未收敛'}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ConvergenceChart;
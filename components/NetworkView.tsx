@@ -0,0 +1,116 @@
+import React from 'react';
+import { Cell, LoopNode, ProblemState, SolverState } from '../types';
+import { formatAllocation, formatWithBigM } from '../utils/solver';
+import clsx from 'clsx';
+
+interface NetworkViewProps {
+  solverState: SolverState;
+  problem: Pick<ProblemState, 'supply' | 'demand' | 'dummy' | 'bigM'> | null;
+  rowLabels?: string[];
+  colLabels?: string[];
+  // Cell that leaves the basis once the loop shown is pivoted
+  leaving?: LoopNode | null;
+}
+
+const WIDTH = 560;
+const SOURCE_X = 130;
+const DESTINATION_X = 430;
+const NODE_RADIUS = 20;
+const ROW_HEIGHT = 64;
+
+// Stroke colours follow the tableau's cell highlights
+const ARC_COLORS: Record<string, string> = {
+  basic: '#6366f1',
+  upper: '#f97316',
+  entering: '#22c55e',
+  'loop-plus': '#22c55e',
+  'loop-minus': '#ef4444',
+  leaving: '#dc2626'
+};
+
+// Shipment plan as a bipartite graph: basic cells become arcs, thickness proportional to the allocation
+const NetworkView: React.FC<NetworkViewProps> = ({ solverState, problem, rowLabels, colLabels, leaving }) => {
+  const { grid } = solverState;
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const height = Math.max(rows, cols) * ROW_HEIGHT + 40;
+  const nodeY = (index: number, count: number) => height / 2 + (index - (count - 1) / 2) * ROW_HEIGHT;
+  const rowLabel = (r: number) => rowLabels?.[r] ?? `S${r + 1}`;
+  const colLabel = (c: number) => colLabels?.[c] ?? `D${c + 1}`;
+  const isDummyRow = (r: number) => problem?.dummy === 'source' && r === rows - 1;
+  const isDummyCol = (c: number) => problem?.dummy === 'destination' && c === cols - 1;
+
+  const isLeaving = (cell: Cell) => cell.highlight === 'leaving' || (!!leaving && leaving.r === cell.row && leaving.c === cell.col);
+  const kind = (cell: Cell) => isLeaving(cell) ? 'leaving'
+    : cell.highlight && cell.highlight !== 'none' ? cell.highlight
+    : cell.isBasin ? 'basic' : 'upper';
+
+  // Basic cells, cells held at their capacity, and the entering cell while it is still empty
+  const arcs = grid.flat().filter(cell => cell.isBasin || cell.atUpperBound || (cell.highlight && cell.highlight !== 'none'));
+  const largest = Math.max(1, ...arcs.map(cell => cell.allocation ?? 0));
+  // Highlighted arcs are drawn last so they stay on top
+  const ordered = [...arcs].sort((a, b) => Number(kind(a) !== 'basic' && kind(a) !== 'upper') - Number(kind(b) !== 'basic' && kind(b) !== 'upper'));
+
+  return (
+    <div className="w-full overflow-x-auto">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full max-w-2xl mx-auto" style={{ minWidth: 420 }}>
+        {ordered.map(cell => {
+          const { row: r, col: c } = cell;
+          const x1 = SOURCE_X + NODE_RADIUS, y1 = nodeY(r, rows);
+          const x2 = DESTINATION_X - NODE_RADIUS, y2 = nodeY(c, cols);
+          const arcKind = kind(cell);
+          const amount = cell.allocation ?? 0;
+          const highlighted = arcKind !== 'basic' && arcKind !== 'upper';
+          // Labels are staggered by destination so arcs into the same node don't overlap
+          const t = 0.2 + 0.5 * (c + 0.5) / cols;
+          const labelX = x1 + (x2 - x1) * t, labelY = y1 + (y2 - y1) * t;
+          const signX = x1 + (x2 - x1) * 0.85, signY = y1 + (y2 - y1) * 0.85;
+          const sign = arcKind === 'loop-plus' || arcKind === 'entering' ? '+' : arcKind === 'loop-minus' || arcKind === 'leaving' ? '−' : null;
+          return (
+            <g key={`arc-${r}-${c}`}>
+              <title>{`${rowLabel(r)} → ${colLabel(c)}：运量 ${formatAllocation(amount)}，运价 ${formatWithBigM(cell.cost, problem?.bigM ?? 0)}${isLeaving(cell) ? '，出基' : ''}`}</title>
+              {highlighted && <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={ARC_COLORS[arcKind]} strokeOpacity={0.2} strokeWidth={amount > 0 ? 2 + 10 * amount / largest + 8 : 10} strokeLinecap="round" />}
+              <line
+                x1={x1} y1={y1} x2={x2} y2={y2}
+                stroke={ARC_COLORS[arcKind]}
+                strokeOpacity={highlighted ? 1 : 0.7}
+                strokeWidth={amount > 0 ? 2 + 10 * amount / largest : 1.5}
+                strokeDasharray={amount > 0 && !isDummyRow(r) && !isDummyCol(c) ? undefined : '5 4'}
+                strokeLinecap="round"
+              />
+              <g transform={`translate(${labelX}, ${labelY})`}>
+                <rect x={-14} y={-8} width={28} height={16} rx={4} fill="white" stroke={highlighted ? ARC_COLORS[arcKind] : '#e2e8f0'} />
+                <text textAnchor="middle" dy="0.35em" className="font-mono font-bold" fontSize={10} fill="#475569">{cell.prohibited ? 'M' : cell.cost}</text>
+              </g>
+              {sign && (
+                <g transform={`translate(${signX}, ${signY})`}>
+                  <circle r={8} fill={arcKind === 'leaving' ? ARC_COLORS.leaving : 'white'} stroke={ARC_COLORS[arcKind]} strokeWidth={1.5} />
+                  <text textAnchor="middle" dy="0.35em" fontSize={11} fontWeight="bold" fill={arcKind === 'leaving' ? 'white' : ARC_COLORS[arcKind]}>{sign}</text>
+                </g>
+              )}
+            </g>
+          );
+        })}
+
+        {grid.map((_, r) => (
+          <g key={`source-${r}`} transform={`translate(${SOURCE_X}, ${nodeY(r, rows)})`}>
+            <circle r={NODE_RADIUS} className={clsx(isDummyRow(r) ? "fill-amber-50 stroke-amber-400" : "fill-slate-100 stroke-slate-400")} strokeWidth={1.5} strokeDasharray={isDummyRow(r) ? '4 3' : undefined} />
+            <text textAnchor="middle" dy="0.35em" fontSize={11} fontWeight="bold" className="fill-slate-700">{rowLabel(r)}</text>
+            <text x={-NODE_RADIUS - 8} textAnchor="end" dy="0.35em" fontSize={11} className="fill-slate-500 font-mono">{problem && formatAllocation(problem.supply[r])}</text>
+          </g>
+        ))}
+        {grid[0].map((_, c) => (
+          <g key={`destination-${c}`} transform={`translate(${DESTINATION_X}, ${nodeY(c, cols)})`}>
+            <circle r={NODE_RADIUS} className={clsx(isDummyCol(c) ? "fill-amber-50 stroke-amber-400" : "fill-slate-100 stroke-slate-400")} strokeWidth={1.5} strokeDasharray={isDummyCol(c) ? '4 3' : undefined} />
+            <text textAnchor="middle" dy="0.35em" fontSize={11} fontWeight="bold" className="fill-slate-700">{colLabel(c)}</text>
+            <text x={NODE_RADIUS + 8} dy="0.35em" fontSize={11} className="fill-slate-500 font-mono">{problem && formatAllocation(problem.demand[c])}</text>
+          </g>
+        ))}
+        <text x={SOURCE_X} y={14} textAnchor="middle" fontSize={10} fontWeight="bold" className="fill-slate-400">产地 (产量)</text>
+        <text x={DESTINATION_X} y={14} textAnchor="middle" fontSize={10} fontWeight="bold" className="fill-slate-400">销地 (销量)</text>
+      </svg>
+    </div>
+  );
+};
+
+export default NetworkView;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { PivotRule } from '../types';
+import { PIVOT_RULE_LABELS } from '../utils/solver';
+import clsx from 'clsx';
+import { ListOrdered } from 'lucide-react';
+
+interface PivotRuleComparisonProps {
+  results: { rule: PivotRule; pivots: number | null; switchedToBland: boolean }[];
+  activeRule: PivotRule;
+  pivots: number; // Pivots of the run shown in the tableau
+}
+
+// Iteration counts of every pivot rule, each run from the same initial solution
+const PivotRuleComparison: React.FC<PivotRuleComparisonProps> = ({ results, activeRule, pivots }) => {
+  const longest = Math.max(1, ...results.map(x => x.pivots ?? 0));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 space-y-3">
+      <h4 className="text-sm font-bold text-slate-700 flex items-center gap-2"><ListOrdered className="w-4 h-4 text-indigo-500" /> 进基规则比较 (同一初始解)</h4>
+      <p className="text-xs text-slate-500">本次求解共迭代 {pivots} 次。各规则从相同的初始基可行解出发，到达最优所需的迭代次数如下：</p>
+      <ul className="space-y-1.5 text-xs">
+        {results.map(({ rule, pivots: count, switchedToBland }) => (
+          <li key={rule} className="flex items-center gap-2">
+            <span className={clsx("w-28 shrink-0 font-bold", rule === activeRule ? "text-indigo-700" : "text-slate-600")}>{PIVOT_RULE_LABELS[rule]}</span>
+            <div className="flex-1 h-3 bg-slate-100 rounded-full overflow-hidden">
+              <div className={clsx("h-full rounded-full", rule === activeRule ? "bg-indigo-500" : "bg-slate-400")} style={{ width: `${((count ?? 0) / longest) * 100}%` }}></div>
+            </div>
+            <span className="w-10 text-right font-mono font-bold text-slate-700">{count ?? '—'}</span>
+            {switchedToBland && <span className="text-[10px] text-orange-600" title="重复出现相同的基，自动切换为 Bland 规则">循环→Bland</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PivotRuleComparison;
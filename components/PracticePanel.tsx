@@ -0,0 +1,354 @@
+import React, { useState } from 'react';
+import { Cell, LoopNode, PivotRule, PracticeScore, ProblemState } from '../types';
+import { PRACTICE_STAGE_LABELS, PracticeStage, buildPracticeKey, isNextLoopCell, isSameValue, isTiedEntering, parseAnswer } from '../utils/practice';
+import { formatAllocation, formatWithBigM, isImprovingDelta } from '../utils/solver';
+import clsx from 'clsx';
+import { CheckCircle, Eye, GraduationCap, Lightbulb } from 'lucide-react';
+
+interface PracticePanelProps {
+  // Basis at the start of the iteration (status 'ready')
+  grid: Cell[][];
+  problem: Pick<ProblemState, 'objective' | 'bigM'>;
+  rule: PivotRule;
+  rowLabels?: string[];
+  colLabels?: string[];
+  // Called once the round is answered; the app then reveals the step as usual
+  onFinish: (score: PracticeScore) => void;
+}
+
+type Feedback = 'correct' | 'wrong';
+
+const STAGES: PracticeStage[] = ['potentials', 'deltas', 'entering', 'loop', 'theta'];
+
+const RULE_HINTS: Record<PivotRule, string> = {
+  'most-negative': "在所有能改进目标的检验数中选绝对值最大的一个 (并列时取行优先的第一个)",
+  'first-negative': "按行优先顺序扫描，选第一个能改进目标的检验数",
+  'bland': "按行优先顺序 (最小下标) 选第一个能改进目标的检验数",
+  'largest-improvement': "对每个能改进的空格求闭回路的 θ，选 |Δ|·θ 最大者"
+};
+
+const answerClass = (feedback?: Feedback) => clsx(
+  "w-14 text-center font-mono text-xs font-bold rounded border py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500",
+  feedback === 'correct' ? "border-emerald-400 bg-emerald-50 text-emerald-700"
+    : feedback === 'wrong' ? "border-red-400 bg-red-50 text-red-600"
+    : "border-slate-200 bg-white text-slate-700"
+);
+
+// One iteration worked by hand: u/v, every Δ, the entering cell, the loop and θ, each checked against the solver
+const PracticePanel: React.FC<PracticePanelProps> = ({ grid, problem, rule, rowLabels, colLabels, onFinish }) => {
+  const [key] = useState(() => buildPracticeKey(grid, problem.objective, rule));
+  const [stage, setStage] = useState<PracticeStage>('potentials');
+  // u1 = 0 is the convention calculatePotentials uses, so it is given
+  const [uInput, setUInput] = useState<string[]>(() => grid.map((_, r) => r === 0 ? '0' : ''));
+  const [vInput, setVInput] = useState<string[]>(() => grid[0].map(() => ''));
+  const [deltaInput, setDeltaInput] = useState<Record<string, string>>({});
+  const [thetaInput, setThetaInput] = useState('');
+  const [entering, setEntering] = useState<LoopNode | null>(null);
+  const [clicked, setClicked] = useState<LoopNode[]>([]);
+  const [wrongClick, setWrongClick] = useState<LoopNode | null>(null);
+  const [feedback, setFeedback] = useState<Record<string, Feedback>>({});
+  // First check of each item decides whether it scores
+  const [firstTry, setFirstTry] = useState<Record<string, boolean>>({});
+  const [hints, setHints] = useState(0);
+  const [message, setMessage] = useState("先求位势：对每个基格有 u_i + v_j = c_ij，已令 u₁ = 0。");
+
+  const rowLabel = (r: number) => rowLabels?.[r] ?? `S${r + 1}`;
+  const colLabel = (c: number) => colLabels?.[c] ?? `D${c + 1}`;
+  const name = (node: LoopNode) => `x${node.r + 1}${node.c + 1}`;
+  const fmt = (value: number) => formatWithBigM(value, problem.bigM);
+  const sameNode = (a: LoopNode | null, b: LoopNode | null) => !!a && !!b && a.r === b.r && a.c === b.c;
+  const nonBasic = grid.flat().filter(cell => !cell.isBasin);
+  const cellKey = (r: number, c: number) => `d-${r}-${c}`;
+  const score = { correct: Object.values(firstTry).filter(Boolean).length, total: Object.keys(firstTry).length, hints };
+
+  const grade = (results: Record<string, boolean>) => {
+    setFeedback(prev => ({ ...prev, ...Object.fromEntries(Object.entries(results).map(([k, ok]) => [k, ok ? 'correct' : 'wrong'])) }));
+    setFirstTry(prev => ({ ...Object.fromEntries(Object.entries(results).map(([k, ok]) => [k, ok])), ...prev }));
+  };
+  const matches = (text: string, expected: number | null) => {
+    const value = parseAnswer(text, problem.bigM);
+    return value !== null && expected !== null && isSameValue(value, expected);
+  };
+  const goTo = (next: PracticeStage, text: string) => { setStage(next); setMessage(text); };
+  const afterDeltas = () => goTo('entering', key.enteringCell
+    ? `检验数全部正确。点击表中的调入格 (${RULE_HINTS[rule]})；若已最优请点“已达最优”。`
+    : "检验数全部正确。判断：还有能改进的空格吗？点击调入格，或点“已达最优”。");
+
+  // --- Checks ---
+
+  const checkPotentials = () => {
+    const results: Record<string, boolean> = {};
+    uInput.forEach((text, r) => { if (r > 0) results[`u-${r}`] = matches(text, key.u[r]); });
+    vInput.forEach((text, c) => { results[`v-${c}`] = matches(text, key.v[c]); });
+    grade(results);
+    const wrong = Object.values(results).filter(ok => !ok).length;
+    if (wrong === 0) goTo('deltas', "位势正确。再求每个空格的检验数 Δ_ij = c_ij − u_i − v_j (禁运格的运价为 M)。");
+    else setMessage(`${wrong} 个位势不正确 (红框)。可写成 2M-5 之类的形式。`);
+  };
+
+  const checkDeltas = () => {
+    const results = Object.fromEntries(nonBasic.map(cell =>
+      [cellKey(cell.row, cell.col), matches(deltaInput[cellKey(cell.row, cell.col)] ?? '', key.deltas[cell.row][cell.col].opportunityCost ?? null)]));
+    grade(results);
+    const wrong = Object.values(results).filter(ok => !ok).length;
+    if (wrong === 0) afterDeltas();
+    else setMessage(`${wrong} 个检验数不正确 (红框)。`);
+  };
+
+  const pickEntering = (node: LoopNode | null) => {
+    if (!key.enteringCell) {
+      grade({ entering: node === null });
+      if (node === null) finishRound("正确：所有检验数都满足最优条件，当前方案已是最优。");
+      else setMessage(`${name(node)} 的检验数不能改进目标，当前方案已是最优。`);
+      return;
+    }
+    if (node && sameNode(node, key.enteringCell)) {
+      grade({ entering: true });
+      setEntering(node);
+      goTo('loop', `调入格 ${name(node)} (Δ = ${fmt(key.enteringDelta)})。从它出发，依次点击闭回路上的拐点 (只能在基格转弯)。`);
+    } else if (node && rule === 'most-negative' && isTiedEntering(key, node, problem.objective)) {
+      setMessage(`${name(node)} 的检验数同样最优，但按当前规则应取行优先的第一个，请再选一次。`);
+    } else {
+      grade({ entering: false });
+      setMessage(node
+        ? `${name(node)} 不是调入格：${RULE_HINTS[rule]}。`
+        : `还有检验数能改进目标，尚未最优。${RULE_HINTS[rule]}。`);
+    }
+  };
+
+  const clickLoopCell = (node: LoopNode) => {
+    if (!key.loop) return;
+    if (!isNextLoopCell(key.loop, clicked, node)) {
+      grade({ loop: false });
+      setWrongClick(node);
+      setMessage(`${name(node)} 不能接在 ${name(clicked[clicked.length - 1] ?? entering!)} 之后：闭回路水平、竖直交替，拐点必须是基格。`);
+      return;
+    }
+    const next = [...clicked, node];
+    setClicked(next);
+    setWrongClick(null);
+    if (next.length === key.loop.length - 2) {
+      grade({ loop: true });
+      goTo('theta', `闭回路 ${[entering!, ...next, entering!].map(name).join(' → ')}。输入调整量 θ。`);
+    } else {
+      setMessage(`已选 ${next.length + 1} 个顶点，继续点击下一个拐点。`);
+    }
+  };
+
+  const checkTheta = () => {
+    const ok = matches(thetaInput, key.theta);
+    grade({ theta: ok });
+    if (ok) finishRound(`θ = ${formatAllocation(key.theta!)} 正确，${key.leaving && !sameNode(key.leaving, key.enteringCell) ? `${name(key.leaving)} 出基` : '调入格在 0 与容量之间翻转'}。`);
+    else setMessage("θ 不正确：取 (−) 格运量中的最小值 (有容量的 (+) 格还要看剩余容量)。");
+  };
+
+  const finishRound = (text: string) => goTo('done', `${text}点击“展示本轮”查看求解器的演算并进入下一轮。`);
+
+  // --- Hints and answers ---
+
+  // Sign of a loop vertex: + at even positions from the entering cell, flipped when it enters from its upper bound
+  const loopSign = (index: number) => (index % 2 === 0 ? 1 : -1) * (grid[key.enteringCell!.r][key.enteringCell!.c].atUpperBound ? -1 : 1);
+  const loopOrder = key.loop ? [key.loop[0], ...(clicked.length > 0 && !sameNode(clicked[0], key.loop[1]) ? key.loop.slice(1, -1).reverse() : key.loop.slice(1, -1))] : [];
+
+  const hintText = (): string => {
+    switch (stage) {
+      case 'potentials': {
+        const r = uInput.findIndex((text, i) => i > 0 && !matches(text, key.u[i]));
+        if (r !== -1) {
+          const basic = grid[r].find(cell => cell.isBasin)!;
+          return `基格 ${name({ r, c: basic.col })}：u${r + 1} = c${r + 1}${basic.col + 1} − v${basic.col + 1} = ${fmt(basic.cost)} − v${basic.col + 1}。`;
+        }
+        const c = vInput.findIndex((text, j) => !matches(text, key.v[j]));
+        const basic = grid.map(row => row[c]).find(cell => cell.isBasin)!;
+        return `基格 ${name({ r: basic.row, c })}：v${c + 1} = c${basic.row + 1}${c + 1} − u${basic.row + 1} = ${fmt(basic.cost)} − u${basic.row + 1}。`;
+      }
+      case 'deltas': {
+        const cell = nonBasic.find(x => !matches(deltaInput[cellKey(x.row, x.col)] ?? '', key.deltas[x.row][x.col].opportunityCost ?? null)) ?? nonBasic[0];
+        return `Δ${cell.row + 1}${cell.col + 1} = c${cell.row + 1}${cell.col + 1} − u${cell.row + 1} − v${cell.col + 1} = ${fmt(cell.cost)} − (${fmt(key.u[cell.row]!)}) − (${fmt(key.v[cell.col]!)})。`;
+      }
+      case 'entering':
+        return key.enteringCell
+          ? `${problem.objective === 'max' ? '求最大时正的 Δ' : '求最小时负的 Δ'}能改进目标 (处于容量上界的格相反)。${RULE_HINTS[rule]}。`
+          : `检查每个空格的 Δ 是否还能改进目标：${problem.objective === 'max' ? '求最大时看有无正数' : '求最小时看有无负数'}。`;
+      case 'loop': {
+        const last = clicked[clicked.length - 1] ?? entering!;
+        const next = loopOrder[clicked.length + 1];
+        return next.r === last.r ? `下一个拐点与 ${name(last)} 在同一行 (${rowLabel(last.r)})。` : `下一个拐点与 ${name(last)} 在同一列 (${colLabel(last.c)})。`;
+      }
+      case 'theta': {
+        const minus = loopOrder.filter((_, i) => loopSign(i) < 0).map(node => `${name(node)} = ${formatAllocation(grid[node.r][node.c].allocation ?? 0)}`);
+        return `(−) 格：${minus.join('，')}，θ 取其中最小值${grid.flat().some(cell => cell.capacity != null) ? ' (并与 (+) 格剩余容量比较)' : ''}。`;
+      }
+      default:
+        return '';
+    }
+  };
+
+  const showHint = () => { setHints(h => h + 1); setMessage(`提示：${hintText()}`); };
+
+  // Reveals the stage's answers; anything not yet right counts as wrong
+  const reveal = () => {
+    switch (stage) {
+      case 'potentials':
+        checkPotentials();
+        setUInput(key.u.map(x => x === null ? '' : fmt(x)));
+        setVInput(key.v.map(x => x === null ? '' : fmt(x)));
+        goTo('deltas', "已显示位势。再求每个空格的检验数 Δ_ij = c_ij − u_i − v_j。");
+        break;
+      case 'deltas':
+        checkDeltas();
+        setDeltaInput(Object.fromEntries(nonBasic.map(cell => [cellKey(cell.row, cell.col), fmt(key.deltas[cell.row][cell.col].opportunityCost!)])));
+        afterDeltas();
+        break;
+      case 'entering':
+        grade({ entering: false });
+        if (!key.enteringCell) finishRound("答案：当前方案已是最优。");
+        else {
+          setEntering(key.enteringCell);
+          goTo('loop', `答案：调入格为 ${name(key.enteringCell)} (Δ = ${fmt(key.enteringDelta)})。依次点击闭回路上的拐点。`);
+        }
+        break;
+      case 'loop':
+        grade({ loop: false });
+        setClicked(loopOrder.slice(1));
+        goTo('theta', `答案：闭回路 ${[...loopOrder, loopOrder[0]].map(name).join(' → ')}。输入调整量 θ。`);
+        break;
+      case 'theta':
+        grade({ theta: false });
+        setThetaInput(formatAllocation(key.theta!));
+        finishRound(`答案：θ = ${formatAllocation(key.theta!)}。`);
+        break;
+    }
+  };
+
+  const handleCellClick = (cell: Cell) => {
+    const node = { r: cell.row, c: cell.col };
+    if (stage === 'entering' && !cell.isBasin) pickEntering(node);
+    else if (stage === 'loop' && !sameNode(node, entering)) clickLoopCell(node);
+  };
+
+  const shownDelta = (cell: Cell) => stage !== 'potentials' && stage !== 'deltas' && key.deltas[cell.row][cell.col].opportunityCost;
+  const loopIndex = (cell: Cell) => sameNode({ r: cell.row, c: cell.col }, entering) ? 0 : clicked.findIndex(node => node.r === cell.row && node.c === cell.col) + 1 || -1;
+  const potentialInput = (value: string, onChange: (value: string) => void, itemKey: string, locked = false) => (
+    <input
+      value={value}
+      disabled={locked || stage !== 'potentials' || feedback[itemKey] === 'correct'}
+      onChange={(e) => onChange(e.target.value)}
+      className={answerClass(locked ? 'correct' : feedback[itemKey])}
+    />
+  );
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-1 text-[11px] font-bold">
+          <GraduationCap className="w-4 h-4 text-indigo-500 mr-1" />
+          {STAGES.map((s, i) => (
+            <span key={s} className={clsx(
+              "px-2 py-0.5 rounded-full border",
+              s === stage ? "bg-indigo-600 text-white border-indigo-600"
+                : STAGES.indexOf(stage) > i || stage === 'done' ? "bg-emerald-50 text-emerald-700 border-emerald-200"
+                : "bg-white text-slate-400 border-slate-200"
+            )}>{i + 1}. {PRACTICE_STAGE_LABELS[s]}</span>
+          ))}
+        </div>
+        <span className="text-xs font-mono font-bold text-slate-600" title="首次检查即正确的项 / 已检查的项">得分 {score.correct}/{score.total} · 提示 {hints}</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="mx-auto border-separate" style={{ borderSpacing: 6 }}>
+          <thead>
+            <tr>
+              <th></th>
+              {grid[0].map((_, c) => <th key={c} className="text-xs font-bold text-slate-600 px-2">{colLabel(c)}</th>)}
+              <th className="text-xs font-bold text-indigo-600">u</th>
+            </tr>
+          </thead>
+          <tbody>
+            {grid.map((row, r) => (
+              <tr key={r}>
+                <th className="text-xs font-bold text-slate-600 pr-2">{rowLabel(r)}</th>
+                {row.map(cell => {
+                  const index = loopIndex(cell);
+                  const clickable = (stage === 'entering' && !cell.isBasin) || stage === 'loop';
+                  const deltaValue = shownDelta(cell);
+                  return (
+                    <td
+                      key={cell.col}
+                      onClick={clickable ? () => handleCellClick(cell) : undefined}
+                      className={clsx(
+                        "relative w-24 h-16 rounded-lg border text-center align-middle transition-colors",
+                        cell.isBasin ? "border-indigo-400 bg-indigo-50/50" : cell.atUpperBound ? "border-orange-300 bg-orange-50/40" : "border-slate-200 bg-white",
+                        index === 0 && "ring-4 ring-green-200 border-green-500 bg-green-50",
+                        index > 0 && (loopSign(index) > 0 ? "border-green-400 bg-green-50" : "border-red-400 bg-red-50"),
+                        sameNode(wrongClick, { r: cell.row, c: cell.col }) && "ring-4 ring-red-200 border-red-500",
+                        clickable && "cursor-pointer hover:ring-2 hover:ring-indigo-200"
+                      )}
+                    >
+                      <span className="absolute top-0.5 right-1 text-[10px] font-bold text-slate-400">{cell.prohibited ? fmt(cell.cost) : cell.cost}</span>
+                      {index >= 0 && (
+                        <span className={clsx("absolute bottom-0.5 right-1 w-4 h-4 rounded-full text-[10px] font-bold flex items-center justify-center",
+                          loopSign(index) > 0 ? "bg-green-500 text-white" : "bg-red-500 text-white")}>{loopSign(index) > 0 ? '+' : '−'}</span>
+                      )}
+                      {index > 0 && <span className="absolute bottom-0.5 left-1 text-[10px] font-mono text-slate-500">#{index + 1}</span>}
+                      {cell.allocation !== null && <span className={clsx("font-mono font-bold", cell.isBasin ? "text-indigo-700" : "text-orange-600")}>{formatAllocation(cell.allocation)}</span>}
+                      {!cell.isBasin && stage === 'deltas' && (
+                        <div className="mt-1 flex justify-center" onClick={(e) => e.stopPropagation()}>
+                          <input
+                            value={deltaInput[cellKey(cell.row, cell.col)] ?? ''}
+                            placeholder="Δ"
+                            disabled={feedback[cellKey(cell.row, cell.col)] === 'correct'}
+                            onChange={(e) => setDeltaInput(prev => ({ ...prev, [cellKey(cell.row, cell.col)]: e.target.value }))}
+                            className={answerClass(feedback[cellKey(cell.row, cell.col)])}
+                          />
+                        </div>
+                      )}
+                      {!cell.isBasin && deltaValue !== false && deltaValue !== undefined && (
+                        <span className={clsx("absolute top-0.5 left-1 text-[10px] font-bold px-1 rounded",
+                          isImprovingDelta(deltaValue, problem.objective, cell.atUpperBound) ? "text-white bg-rose-500" : "text-emerald-700 bg-emerald-100")}>Δ {fmt(deltaValue)}</span>
+                      )}
+                    </td>
+                  );
+                })}
+                <td>{potentialInput(uInput[r], value => setUInput(prev => prev.map((x, i) => i === r ? value : x)), `u-${r}`, r === 0)}</td>
+              </tr>
+            ))}
+            <tr>
+              <th className="text-xs font-bold text-indigo-600 pr-2">v</th>
+              {grid[0].map((_, c) => (
+                <td key={c} className="text-center">
+                  <div className="flex justify-center">{potentialInput(vInput[c], value => setVInput(prev => prev.map((x, i) => i === c ? value : x)), `v-${c}`)}</div>
+                </td>
+              ))}
+              <td></td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        {stage === 'potentials' && <button onClick={checkPotentials} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-xs">检查位势</button>}
+        {stage === 'deltas' && <button onClick={checkDeltas} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-xs">检查检验数</button>}
+        {stage === 'entering' && <button onClick={() => pickEntering(null)} className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-bold text-xs">已达最优</button>}
+        {stage === 'theta' && (
+          <>
+            <label className="text-xs font-bold text-slate-600 flex items-center gap-1">θ = <input value={thetaInput} onChange={(e) => setThetaInput(e.target.value)} className={answerClass(feedback.theta)} /></label>
+            <button onClick={checkTheta} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-xs">检查 θ</button>
+          </>
+        )}
+        {stage !== 'done' && (
+          <>
+            <button onClick={showHint} className="px-3 py-1.5 bg-amber-50 hover:bg-amber-100 text-amber-700 border border-amber-200 rounded-lg font-bold text-xs flex items-center gap-1"><Lightbulb className="w-3 h-3" /> 提示</button>
+            <button onClick={reveal} className="px-3 py-1.5 bg-white hover:bg-slate-50 text-slate-500 border border-slate-200 rounded-lg font-bold text-xs flex items-center gap-1"><Eye className="w-3 h-3" /> 显示答案</button>
+          </>
+        )}
+        {stage === 'done' && (
+          <button onClick={() => onFinish(score)} className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-xs flex items-center gap-1"><CheckCircle className="w-3 h-3" /> 展示本轮</button>
+        )}
+      </div>
+      <p className="text-xs text-slate-600 bg-slate-50 border border-slate-200 rounded-lg p-2">{message}</p>
+    </div>
+  );
+};
+
+export default PracticePanel;
@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { Cell, ProblemDraft } from '../types';
+import { exportProblemCsv, exportProblemJson, importProblem } from '../utils/problemFile';
+import { parseProblemDraft } from '../utils/problemInput';
+import { downloadText } from '../utils/download';
+import { AlertCircle, ClipboardPaste, Download, Link, Upload } from 'lucide-react';
+
+interface ProblemExchangeProps {
+  // Export is offered once the draft is valid
+  draft: ProblemDraft | null;
+  // Plan currently shown, exported on request
+  grid: Cell[][] | null;
+  onImport: (draft: ProblemDraft) => void;
+  // The app keeps the address bar in sync with the problem, so the link is simply the current URL
+  shareable: boolean;
+}
+
+// Saves the problem as JSON/CSV and loads it back from a file or from cells pasted out of a spreadsheet
+const ProblemExchange: React.FC<ProblemExchangeProps> = ({ draft, grid, onImport, shareable }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [pasting, setPasting] = useState(false);
+  const [pasted, setPasted] = useState('');
+  const [includePlan, setIncludePlan] = useState(true);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  const canExport = !!draft && parseProblemDraft(draft).errors.length === 0;
+  const plan = includePlan && grid && grid.length > 0 ? grid : undefined;
+
+  const load = (text: string, source: string) => {
+    const result = importProblem(text);
+    if (!result.draft) {
+      setErrors([`${source}导入失败：`, ...result.errors]);
+      return;
+    }
+    setErrors([]);
+    setPasting(false);
+    setPasted('');
+    onImport(result.draft);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    load(await file.text(), `文件 ${file.name} `);
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setErrors(["无法访问剪贴板，请直接复制地址栏中的链接"]);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-4 shadow-sm border border-slate-200 space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => fileRef.current?.click()} className="py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><Upload className="w-3 h-3" /> 导入文件</button>
+        <button onClick={() => setPasting(p => !p)} className="py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><ClipboardPaste className="w-3 h-3" /> 粘贴表格</button>
+        <input ref={fileRef} type="file" accept=".json,.csv,.txt,application/json,text/csv" onChange={handleFile} className="hidden" />
+      </div>
+
+      {pasting && (
+        <div className="space-y-2">
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            rows={5}
+            placeholder={"从表格软件复制运价矩阵：\n最后一列为产量，最后一行为销量，禁运路线填 M"}
+            className="w-full text-xs font-mono border border-slate-200 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button onClick={() => load(pasted, '')} disabled={pasted.trim() === ''} className="w-full py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-xs disabled:opacity-50">导入粘贴内容</button>
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 bg-red-50 border border-red-200 rounded-lg p-2 space-y-1">
+          {errors.map((err, idx) => <li key={idx} className="flex items-start gap-1"><AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {err}</li>)}
+        </ul>
+      )}
+
+      {canExport && (
+        <div className="space-y-2 border-t border-slate-100 pt-3">
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={() => downloadText('transportation-problem.json', exportProblemJson(draft!, plan), 'application/json')} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><Download className="w-3 h-3" /> 导出 JSON</button>
+            <button onClick={() => downloadText('transportation-problem.csv', exportProblemCsv(draft!, plan), 'text/csv')} className="py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 border border-indigo-200 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><Download className="w-3 h-3" /> 导出 CSV</button>
+          </div>
+          {shareable && (
+            <button onClick={handleCopyLink} className="w-full py-2 bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 rounded-lg font-bold text-xs flex items-center justify-center gap-1"><Link className="w-3 h-3" /> {copied ? '链接已复制' : '复制分享链接'}</button>
+          )}
+          {grid && grid.length > 0 && (
+            <label className="flex items-center gap-2 text-xs text-slate-500">
+              <input type="checkbox" checked={includePlan} onChange={(e) => setIncludePlan(e.target.checked)} className="accent-indigo-600" /> 同时导出当前运输方案
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProblemExchange;
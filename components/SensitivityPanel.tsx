@@ -0,0 +1,101 @@
+import React from 'react';
+import { Cell, Objective } from '../types';
+import { analyzeCostRanges, analyzePairChange } from '../utils/sensitivity';
+import { formatWithBigM } from '../utils/solver';
+import clsx from 'clsx';
+import { SlidersHorizontal, GitBranch } from 'lucide-react';
+
+interface SensitivityPanelProps {
+  grid: Cell[][];
+  u: (number | null)[];
+  v: (number | null)[];
+  objective: Objective;
+  bigM: number;
+  selected: { r: number; c: number } | null;
+  onSelect: (r: number, c: number) => void;
+  // Pivots a zero-Δ cell in to reach another optimal plan
+  onPivot: (r: number, c: number) => void;
+  rowLabels?: string[];
+  colLabels?: string[];
+}
+
+const formatBound = (value: number, bigM: number) =>
+  value === Infinity ? '+∞' : value === -Infinity ? '−∞' : formatWithBigM(value, bigM);
+
+// Post-optimality analysis read off the final potentials and Δ values
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ grid, u, v, objective, bigM, selected, onSelect, onPivot, rowLabels, colLabels }) => {
+  const ranges = analyzeCostRanges(grid, objective);
+  const rowLabel = (r: number) => rowLabels?.[r] ?? `S${r + 1}`;
+  const colLabel = (c: number) => colLabels?.[c] ?? `D${c + 1}`;
+  const coefficient = objective === 'max' ? '利润' : '运价';
+  const total = objective === 'max' ? '总利润' : '总运费';
+
+  const selectedCell = selected ? grid[selected.r][selected.c] : null;
+  const selectedRange = selected ? ranges.find(x => x.r === selected.r && x.c === selected.c) : undefined;
+  const pair = selected ? analyzePairChange(grid, u, v, selected.r, selected.c) : null;
+
+  const rangeRow = (range: typeof ranges[number]) => (
+    <tr
+      key={`${range.r}-${range.c}`}
+      onClick={() => onSelect(range.r, range.c)}
+      className={clsx("cursor-pointer hover:bg-slate-50", selected?.r === range.r && selected.c === range.c && "bg-indigo-50")}
+    >
+      <td className="py-1 pr-2 font-bold text-slate-600">{rowLabel(range.r)}→{colLabel(range.c)}</td>
+      <td className="py-1 pr-2 text-right">{formatBound(range.cost, bigM)}</td>
+      <td className="py-1 text-right">[{formatBound(range.lower, bigM)}, {formatBound(range.upper, bigM)}]</td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-4 space-y-4">
+      <h4 className="text-sm font-bold text-slate-700 flex items-center gap-2"><SlidersHorizontal className="w-4 h-4 text-indigo-500" /> 灵敏度分析</h4>
+
+      {selectedCell && selectedRange ? (
+        <div className="text-xs bg-indigo-50 border border-indigo-200 rounded-xl p-3 space-y-1.5 text-slate-700">
+          <div className="font-bold text-indigo-800">
+            {rowLabel(selectedCell.row)}→{colLabel(selectedCell.col)} ({selectedCell.isBasin ? '基变量' : '非基变量'}，{coefficient} {formatBound(selectedCell.cost, bigM)})
+          </div>
+          <div>
+            {coefficient}在 <span className="font-mono font-bold">[{formatBound(selectedRange.lower, bigM)}, {formatBound(selectedRange.upper, bigM)}]</span> 内变化时，当前最优基保持不变
+            {selectedCell.isBasin ? '，但位势 u、v 和' + total + '会随之变化。' : `，方案与${total}均不变 (Δ = ${formatBound(selectedCell.opportunityCost ?? 0, bigM)})。`}
+          </div>
+          {pair && (
+            <div>
+              {rowLabel(selectedCell.row)} 的产量与 {colLabel(selectedCell.col)} 的销量同时增加 δ 时，{total}变化 (u + v)·δ = <span className="font-mono font-bold">{formatBound(pair.marginal, bigM)}</span>·δ，
+              δ 允许范围 <span className="font-mono font-bold">[{formatBound(pair.lower, bigM)}, {formatBound(pair.upper, bigM)}]</span> (沿基变量路径调整，基保持可行)。
+            </div>
+          )}
+          {!selectedCell.isBasin && !selectedCell.prohibited && selectedCell.opportunityCost === 0 && (
+            <button onClick={() => onPivot(selectedCell.row, selectedCell.col)} className="mt-1 px-3 py-1.5 bg-amber-100 hover:bg-amber-200 text-amber-800 border border-amber-300 rounded-lg font-bold flex items-center gap-1">
+              <GitBranch className="w-3 h-3" /> 检验数为 0：调入该格查看另一最优方案
+            </button>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-slate-500">点击运输表中的任意单元格，查看其{coefficient}变化范围及对应产销量的影子价格。</p>
+      )}
+
+      <div>
+        <div className="text-xs font-bold text-slate-500 mb-1">影子价格 (对偶变量，取 u₁ = 0；只有 u_i + v_j 有经济含义)</div>
+        <div className="flex flex-wrap gap-1.5 text-[11px] font-mono">
+          {u.map((x, r) => <span key={`u-${r}`} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-700">{rowLabel(r)}: u={x === null ? '?' : formatBound(x, bigM)}</span>)}
+          {v.map((x, c) => <span key={`v-${c}`} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-700">{colLabel(c)}: v={x === null ? '?' : formatBound(x, bigM)}</span>)}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-[11px] font-mono">
+        {[true, false].map(basic => (
+          <div key={String(basic)}>
+            <div className="text-xs font-bold text-slate-500 mb-1 font-sans">{basic ? '基变量' : '非基变量'}{coefficient}允许范围</div>
+            <table className="w-full">
+              <thead><tr className="text-slate-400"><th className="text-left font-normal">路线</th><th className="text-right font-normal">{coefficient}</th><th className="text-right font-normal">范围</th></tr></thead>
+              <tbody>{ranges.filter(x => x.isBasic === basic).map(rangeRow)}</tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityPanel;
@@ -1,23 +1,231 @@
-import React from 'react';
-import { Cell, SolverState } from '../types';
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { Cell, SolverState, ProblemDraft, ProblemState, TableauLine, LoopPreview } from '../types';
+import { isValidQuantity, sumDraftValues } from '../utils/problemInput';
+import { isImprovingDelta, formatWithBigM, formatAllocation } from '../utils/solver';
 import clsx from 'clsx';
-import { ArrowRight, CornerDownRight } from 'lucide-react';
+import { ArrowRight, CornerDownRight, Ban } from 'lucide-react';
 
 interface TableauProps {
   solverState: SolverState;
-  problem: { supply: number[]; demand: number[] };
+  problem: Pick<ProblemState, 'supply' | 'demand' | 'dummy' | 'objective' | 'bigM'> | null;
+  // When provided, costs/supply/demand become editable inputs
+  draft?: ProblemDraft;
+  onDraftChange?: (draft: ProblemDraft) => void;
+  // Node names when rows/columns are not plain S_i/D_j, e.g. hubs of a transshipment network
+  rowLabels?: string[];
+  colLabels?: string[];
+  // At optimality cells can be clicked, e.g. to inspect their sensitivity ranges
+  onCellClick?: (r: number, c: number) => void;
+  selectedCell?: { r: number; c: number } | null;
+  // During the loop step the path is drawn over the grid, starting at the entering cell
+  loopPreview?: LoopPreview | null;
 }
 
-const Tableau: React.FC<TableauProps> = ({ solverState, problem }) => {
+const inputClass = (value: string) => clsx(
+  "w-full text-center font-mono font-bold rounded-lg border bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500",
+  isValidQuantity(value) ? "border-slate-200 text-slate-700" : "border-red-400 bg-red-50 text-red-600"
+);
+
+// Diagonal hatching for blocked routes
+const HATCH_STYLE: React.CSSProperties = {
+  backgroundImage: 'repeating-linear-gradient(45deg, rgba(148, 163, 184, 0.25) 0 6px, transparent 6px 12px)'
+};
+
+// Seconds each loop segment takes to draw
+const SEGMENT_SECONDS = 0.35;
+
+const Tableau: React.FC<TableauProps> = ({ solverState, problem, draft, onDraftChange, rowLabels, colLabels, onCellClick, selectedCell, loopPreview }) => {
   const { grid, u, v } = solverState;
-  const rows = grid.length;
-  const cols = grid[0].length;
+  const gridRef = useRef<HTMLDivElement>(null);
+  const cellRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const [loopPoints, setLoopPoints] = useState<{ points: { x: number; y: number }[]; width: number; height: number } | null>(null);
+  const editing = !!draft && !!onDraftChange;
+  const rows = editing ? draft.supply.length : grid.length;
+  const cols = editing ? draft.demand.length : grid[0].length;
+  const isDummyRow = (r: number) => !editing && problem?.dummy === 'source' && r === rows - 1;
+  const isDummyCol = (c: number) => !editing && problem?.dummy === 'destination' && c === cols - 1;
+  // Zero Δ at the optimum marks an alternative optimal plan
+  const isAlternative = (cell: Cell) => solverState.status === 'optimal' && !cell.isBasin && !cell.prohibited && cell.opportunityCost === 0;
+  const rowLabel = (r: number) => rowLabels?.[r] ?? `S${r + 1}`;
+  const colLabel = (c: number) => colLabels?.[c] ?? `D${c + 1}`;
+
+  // Vogel/Russell details of the allocation currently shown while the initial solution is built
+  const cursor = solverState.allocationCursor ?? 0;
+  const shownStep = solverState.status === 'initial' && cursor > 0 ? solverState.allocationSteps?.[cursor - 1] : undefined;
+  const penaltyStep = shownStep?.rowPenalties && shownStep.colPenalties ? shownStep : undefined;
+  const isLine = (line: TableauLine | undefined, type: TableauLine['type'], index: number) => line?.type === type && line.index === index;
+  // Vogel marks crossed lines with null penalties, Russell with a row/column of null deltas
+  const isCrossedRow = (r: number) => !!shownStep && (
+    (penaltyStep ? penaltyStep.rowPenalties![r] === null : !!shownStep.russellDeltas?.[r].every(x => x === null))
+    || isLine(shownStep.crossedLine, 'row', r));
+  const isCrossedCol = (c: number) => !!shownStep && (
+    (penaltyStep ? penaltyStep.colPenalties![c] === null : !!shownStep.russellDeltas?.every(row => row[c] === null))
+    || isLine(shownStep.crossedLine, 'col', c));
+  const isChosenRow = (r: number) => isLine(penaltyStep?.chosenLine, 'row', r);
+  const isChosenCol = (c: number) => isLine(penaltyStep?.chosenLine, 'col', c);
+
+  // Cell centres are measured after layout (offsets ignore the scale of highlighted cells) and again on resize
+  const loopKey = loopPreview?.loop.map(n => `${n.r}-${n.c}`).join('|') ?? '';
+  useLayoutEffect(() => {
+    const container = gridRef.current;
+    if (!loopPreview || !container) { setLoopPoints(null); return; }
+    const measure = () => {
+      const points = loopPreview.loop.map(({ r, c }) => {
+        const el = cellRefs.current[`${r}-${c}`];
+        return el ? { x: el.offsetLeft + el.offsetWidth / 2, y: el.offsetTop + el.offsetHeight / 2 } : null;
+      });
+      setLoopPoints(points.every(p => p !== null)
+        ? { points: points as { x: number; y: number }[], width: container.scrollWidth, height: container.scrollHeight }
+        : null);
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [loopKey]);
+
+  // θ candidate of a loop cell: allocation of a (-) cell or residual capacity of a (+) cell, null if unbounded
+  const thetaCandidate = (r: number, c: number) => {
+    if (!loopPreview) return null;
+    const index = loopPreview.loop.slice(0, -1).findIndex(n => n.r === r && n.c === c);
+    if (index === -1 || !Number.isFinite(loopPreview.limits[index])) return null;
+    return { limit: loopPreview.limits[index], isLeaving: loopPreview.leaving?.r === r && loopPreview.leaving.c === c };
+  };
+
+  const updateCost = (r: number, c: number, value: string) => {
+    if (!draft || !onDraftChange) return;
+    onDraftChange({ ...draft, costs: draft.costs.map((row, i) => i === r ? row.map((x, j) => j === c ? value : x) : row) });
+  };
+  const updateCapacity = (r: number, c: number, value: string) => {
+    if (!draft || !onDraftChange) return;
+    onDraftChange({ ...draft, capacities: draft.capacities.map((row, i) => i === r ? row.map((x, j) => j === c ? value : x) : row) });
+  };
+  const toggleProhibited = (r: number, c: number) => {
+    if (!draft || !onDraftChange) return;
+    onDraftChange({ ...draft, prohibited: draft.prohibited.map((row, i) => i === r ? row.map((x, j) => j === c ? !x : x) : row) });
+  };
+  const formatValue = (value: number) => formatWithBigM(value, problem?.bigM ?? 0);
+  const updateSupply = (r: number, value: string) => {
+    if (!draft || !onDraftChange) return;
+    onDraftChange({ ...draft, supply: draft.supply.map((x, i) => i === r ? value : x) });
+  };
+  const updateDemand = (c: number, value: string) => {
+    if (!draft || !onDraftChange) return;
+    onDraftChange({ ...draft, demand: draft.demand.map((x, i) => i === c ? value : x) });
+  };
+
+  if (editing) {
+    const totalSupply = sumDraftValues(draft.supply);
+    const totalDemand = sumDraftValues(draft.demand);
+    return (
+      <div className="overflow-x-auto tableau-scroll pb-4 w-full">
+        <div className="inline-block min-w-full">
+          <div
+            className="grid gap-3"
+            style={{ gridTemplateColumns: `auto repeat(${cols}, minmax(100px, 1fr)) auto` }}
+          >
+            <div className="p-2 font-bold text-slate-400 text-center flex items-end justify-center text-[10px] uppercase tracking-wider">
+              销地 <ArrowRight className="inline w-3 h-3 ml-1" />
+            </div>
+            {Array.from({ length: cols }).map((_, i) => (
+              <div key={`head-${i}`} className="p-3 font-bold text-slate-700 text-center bg-slate-100 rounded-xl shadow-sm border border-slate-200">
+                {colLabel(i)}
+              </div>
+            ))}
+            <div className="p-3 font-bold text-indigo-600 text-center bg-indigo-50/50 rounded-xl border border-indigo-100">
+              产量
+            </div>
+
+            {draft.costs.map((row, rIndex) => (
+              <React.Fragment key={`row-${rIndex}`}>
+                <div className="flex flex-col items-center justify-center p-2 font-bold text-slate-700 bg-slate-100 rounded-xl border border-slate-200">
+                  <span>{rowLabel(rIndex)}</span>
+                </div>
+                {row.map((value, cIndex) => (
+                  <div
+                    key={`cell-${rIndex}-${cIndex}`}
+                    className="relative h-28 border border-slate-200 bg-white rounded-xl flex flex-col items-center justify-center gap-1 px-3"
+                    style={draft.prohibited[rIndex][cIndex] ? HATCH_STYLE : undefined}
+                  >
+                    <button
+                      onClick={() => toggleProhibited(rIndex, cIndex)}
+                      className={clsx("absolute top-1 right-1 p-1 rounded", draft.prohibited[rIndex][cIndex] ? "text-red-600 bg-red-100" : "text-slate-300 hover:text-slate-500")}
+                      title="切换禁运路线"
+                    >
+                      <Ban className="w-3 h-3" />
+                    </button>
+                    <span className="text-[10px] font-bold text-slate-400">{draft.objective === 'max' ? '利润' : '运价'} c<sub>{rIndex + 1}{cIndex + 1}</sub></span>
+                    {draft.prohibited[rIndex][cIndex] ? (
+                      <span className="text-sm font-bold text-red-600">禁运</span>
+                    ) : (
+                      <input
+                        value={value}
+                        inputMode="numeric"
+                        onChange={(e) => updateCost(rIndex, cIndex, e.target.value)}
+                        className={clsx(inputClass(value), "py-1.5 text-lg")}
+                      />
+                    )}
+                    {!draft.prohibited[rIndex][cIndex] && (
+                      <label className="flex items-center gap-1 text-[10px] font-bold text-slate-400" title="路线容量上限，留空表示不限">
+                        容量 ≤
+                        <input
+                          value={draft.capacities[rIndex][cIndex]}
+                          inputMode="numeric"
+                          placeholder="∞"
+                          onChange={(e) => updateCapacity(rIndex, cIndex, e.target.value)}
+                          className={clsx(
+                            inputClass(draft.capacities[rIndex][cIndex].trim() === '' ? '0' : draft.capacities[rIndex][cIndex]),
+                            "w-12 py-0.5 text-xs placeholder:text-slate-300"
+                          )}
+                        />
+                      </label>
+                    )}
+                  </div>
+                ))}
+                <div className="flex items-center justify-center p-2 bg-slate-50 rounded-xl border border-slate-200/60">
+                  <input
+                    value={draft.supply[rIndex]}
+                    inputMode="numeric"
+                    onChange={(e) => updateSupply(rIndex, e.target.value)}
+                    className={clsx(inputClass(draft.supply[rIndex]), "w-16 py-1.5")}
+                  />
+                </div>
+              </React.Fragment>
+            ))}
+
+            <div className="p-2 font-bold text-indigo-600 bg-indigo-50/50 rounded-xl border border-indigo-100 flex items-center justify-center">
+              销量
+            </div>
+            {draft.demand.map((value, cIndex) => (
+              <div key={`dem-${cIndex}`} className="flex items-center justify-center p-3 bg-slate-50 rounded-xl border border-slate-200/60">
+                <input
+                  value={value}
+                  inputMode="numeric"
+                  onChange={(e) => updateDemand(cIndex, e.target.value)}
+                  className={clsx(inputClass(value), "py-1.5")}
+                />
+              </div>
+            ))}
+            {/* Live Totals */}
+            <div className={clsx(
+              "flex flex-col items-center justify-center p-2 rounded-xl border font-mono text-xs font-bold",
+              totalSupply === totalDemand ? "bg-emerald-50 border-emerald-200 text-emerald-700" : "bg-amber-50 border-amber-200 text-amber-700"
+            )}>
+              <span title="总产量">Σa={totalSupply}</span>
+              <span title="总销量">Σb={totalDemand}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="overflow-x-auto tableau-scroll pb-4 w-full">
       <div className="inline-block min-w-full">
         <div 
-          className="grid gap-3" 
+          ref={gridRef}
+          className="grid gap-3 relative" 
           style={{ gridTemplateColumns: `auto repeat(${cols}, minmax(100px, 1fr)) auto` }}
         >
           {/* Header Row */}
@@ -25,8 +233,12 @@ const Tableau: React.FC<TableauProps> = ({ solverState, problem }) => {
             销地 <ArrowRight className="inline w-3 h-3 ml-1" />
           </div>
           {Array.from({ length: cols }).map((_, i) => (
-            <div key={`head-${i}`} className="p-3 font-bold text-slate-700 text-center bg-slate-100 rounded-xl shadow-sm border border-slate-200">
-              D{i + 1}
+            <div key={`head-${i}`} className={clsx(
+              "p-3 font-bold text-center rounded-xl shadow-sm border",
+              isDummyCol(i) ? "text-amber-700 bg-amber-50 border-dashed border-amber-300" : "text-slate-700 bg-slate-100 border-slate-200"
+            )}>
+              {colLabel(i)}
+              {isDummyCol(i) && <div className="text-[10px] font-bold uppercase tracking-wide">虚拟销地</div>}
             </div>
           ))}
           <div className="p-3 font-bold text-indigo-600 text-center bg-indigo-50/50 rounded-xl border border-indigo-100">
@@ -37,39 +249,81 @@ const Tableau: React.FC<TableauProps> = ({ solverState, problem }) => {
           {grid.map((row, rIndex) => (
             <React.Fragment key={`row-${rIndex}`}>
               {/* Row Header (Sources) - REMOVED u DISPLAY FROM HERE */}
-              <div className="flex flex-col items-center justify-center p-2 font-bold text-slate-700 bg-slate-100 rounded-xl border border-slate-200 relative group">
-                <span>S{rIndex + 1}</span>
+              <div className={clsx(
+                "flex flex-col items-center justify-center p-2 font-bold rounded-xl border relative group",
+                isDummyRow(rIndex) ? "text-amber-700 bg-amber-50 border-dashed border-amber-300" : "text-slate-700 bg-slate-100 border-slate-200"
+              )}>
+                <span>{rowLabel(rIndex)}</span>
+                {isDummyRow(rIndex) && <span className="text-[10px] font-bold uppercase tracking-wide">虚拟产地</span>}
               </div>
 
               {/* Cells */}
               {row.map((cell, cIndex) => (
                 <div
                   key={`cell-${rIndex}-${cIndex}`}
+                  ref={el => { cellRefs.current[`${rIndex}-${cIndex}`] = el; }}
                   className={clsx(
                     "relative h-24 border rounded-xl transition-all duration-300 flex items-center justify-center group",
                     // Basic vs Non-Basic Styling
                     cell.isBasin 
                       ? "border-indigo-500 bg-indigo-50/40 shadow-sm" 
-                      : "border-slate-200 bg-white hover:border-slate-300 hover:shadow-md",
+                      : cell.atUpperBound
+                        ? "border-orange-300 bg-orange-50/40"
+                        : "border-slate-200 bg-white hover:border-slate-300 hover:shadow-md",
+                    // Dummy routes are dashed so they read as fictitious shipments
+                    (isDummyRow(rIndex) || isDummyCol(cIndex)) && "border-dashed",
+                    // Vogel: chosen line tinted, exhausted lines crossed out
+                    (isChosenRow(rIndex) || isChosenCol(cIndex)) && "bg-amber-50/70 border-amber-300",
+                    (isCrossedRow(rIndex) || isCrossedCol(cIndex)) && cell.highlight !== 'entering' && "opacity-40 grayscale",
                     // Highlight Logic
                     cell.highlight === 'entering' && "ring-4 ring-green-200 border-green-500 bg-green-50 z-10 scale-105",
                     cell.highlight === 'leaving' && "ring-4 ring-red-200 border-red-500 bg-red-50 z-10 scale-95 opacity-60",
                     cell.highlight === 'loop-plus' && "border-green-400 bg-green-50 ring-2 ring-green-100",
-                    cell.highlight === 'loop-minus' && "border-red-400 bg-red-50 ring-2 ring-red-100"
+                    cell.highlight === 'loop-minus' && "border-red-400 bg-red-50 ring-2 ring-red-100",
+                    isAlternative(cell) && "border-amber-400 ring-2 ring-amber-100",
+                    solverState.status === 'optimal' && onCellClick && "cursor-pointer",
+                    selectedCell?.r === rIndex && selectedCell.c === cIndex && "ring-4 ring-indigo-200"
                   )}
+                  style={cell.prohibited ? HATCH_STYLE : undefined}
+                  onClick={solverState.status === 'optimal' && onCellClick ? () => onCellClick(rIndex, cIndex) : undefined}
+                  title={isAlternative(cell) ? "检验数为 0：存在另一个最优方案" : undefined}
                 >
                   {/* Cost (Top Right) */}
                   <div className="absolute top-1.5 right-2 text-[10px] font-bold text-slate-400 bg-slate-50 border border-slate-100 px-1.5 py-0.5 rounded">
-                    {cell.cost}
+                    {cell.prohibited ? <span className="text-red-500 flex items-center gap-0.5"><Ban className="w-2.5 h-2.5" />{formatValue(cell.cost)}</span> : cell.cost}
                   </div>
 
+                  {/* Route Capacity (Bottom Left), flagged once the route is saturated */}
+                  {cell.capacity != null && (
+                    <div className={clsx(
+                      "absolute bottom-1.5 left-2 text-[10px] font-bold px-1.5 py-0.5 rounded border",
+                      cell.allocation !== null && cell.allocation === cell.capacity
+                        ? "text-orange-700 bg-orange-100 border-orange-200"
+                        : "text-slate-400 bg-slate-50 border-slate-100"
+                    )} title={cell.atUpperBound ? "非基变量，运量处于容量上界" : "路线容量上限"}>
+                      ≤{cell.capacity}{cell.allocation !== null && cell.allocation === cell.capacity && " 满"}
+                    </div>
+                  )}
+
+                  {/* Russell Delta (Top Left, initial solution only) */}
+                  {shownStep?.russellDeltas && shownStep.russellDeltas[rIndex][cIndex] !== null && (
+                    <div className={clsx(
+                      "absolute top-1.5 left-2 text-[10px] font-bold px-1.5 py-0.5 rounded shadow-sm z-10",
+                      shownStep.r === rIndex && shownStep.c === cIndex ? "text-white bg-amber-500" : "text-amber-700 bg-amber-100 border border-amber-200"
+                    )} title="罗素法 Δ = c − ū − v̄">
+                      R {shownStep.russellDeltas[rIndex][cIndex]}
+                    </div>
+                  )}
+
                   {/* Opportunity Cost (Top Left) */}
                   {cell.opportunityCost !== undefined && (
                     <div className={clsx(
                       "absolute top-1.5 left-2 text-[10px] font-bold px-1.5 py-0.5 rounded shadow-sm z-10 transition-transform hover:scale-110 cursor-help",
-                      cell.opportunityCost < 0 ? "text-white bg-rose-500 animate-pulse" : "text-emerald-700 bg-emerald-100 border border-emerald-200 opacity-60"
+                      isImprovingDelta(cell.opportunityCost, problem?.objective, cell.atUpperBound) ? "text-white bg-rose-500 animate-pulse"
+                        : isAlternative(cell) ? "text-amber-800 bg-amber-100 border border-amber-300"
+                        : "text-emerald-700 bg-emerald-100 border border-emerald-200 opacity-60"
                     )} title="检验数 (Delta)">
-                      Δ {cell.opportunityCost}
+                      Δ {formatValue(cell.opportunityCost)}
                     </div>
                   )}
 
@@ -81,11 +335,24 @@ const Tableau: React.FC<TableauProps> = ({ solverState, problem }) => {
                     <div className="absolute bottom-1 right-2 w-6 h-6 rounded-full bg-red-100 flex items-center justify-center text-red-700 font-bold border border-red-300 z-10">-</div>
                    )}
 
+                  {/* θ Candidate (Top Edge), the minimum one leaves the basis */}
+                  {(() => {
+                    const candidate = thetaCandidate(rIndex, cIndex);
+                    if (!candidate) return null;
+                    return (
+                      <div className={clsx(
+                        "absolute -top-2.5 left-1/2 -translate-x-1/2 whitespace-nowrap text-[10px] font-mono font-bold px-1.5 py-0.5 rounded shadow-sm z-30",
+                        candidate.isLeaving ? "text-white bg-red-600 ring-2 ring-red-200" : "text-red-700 bg-white border border-red-200"
+                      )} title={candidate.isLeaving ? "θ 取最小值，此格出基" : "θ 候选值"}>
+                        {candidate.isLeaving ? `出基 θ=${formatAllocation(candidate.limit)}` : `θ ${formatAllocation(candidate.limit)}`}
+                      </div>
+                    );
+                  })()}
 
                   {/* Allocation (Center) */}
                   {cell.allocation !== null && (
-                    <div className="text-3xl font-mono font-bold text-indigo-700 drop-shadow-sm">
-                      {cell.allocation}
+                    <div className={clsx("text-3xl font-mono font-bold drop-shadow-sm", cell.atUpperBound && !cell.isBasin ? "text-orange-600" : "text-indigo-700")}>
+                      {formatAllocation(cell.allocation)}
                     </div>
                   )}
                   {cell.allocation === null && cell.highlight === 'entering' && (
@@ -99,10 +366,18 @@ const Tableau: React.FC<TableauProps> = ({ solverState, problem }) => {
 
               {/* Supply Column - ADDED u DISPLAY HERE */}
               <div className="flex flex-col items-center justify-center p-2 font-mono font-bold text-slate-500 bg-slate-50 rounded-xl border border-slate-200/60 relative">
-                <span>{problem.supply[rIndex]}</span>
+                <span className={clsx(isCrossedRow(rIndex) && "line-through text-slate-300")}>{problem && formatAllocation(problem.supply[rIndex])}</span>
+                {penaltyStep && penaltyStep.rowPenalties![rIndex] !== null && (
+                  <span className={clsx(
+                    "absolute top-1 left-1/2 -translate-x-1/2 text-[10px] font-mono px-1.5 py-0.5 rounded z-20",
+                    isChosenRow(rIndex) ? "text-white bg-amber-500 ring-2 ring-amber-200" : "text-amber-700 bg-amber-100 border border-amber-200"
+                  )} title="罚数 (Penalty)">
+                    P={penaltyStep.rowPenalties![rIndex]}
+                  </span>
+                )}
                 {u[rIndex] !== null && (
                   <span className="absolute bottom-1 left-1/2 -translate-x-1/2 text-[10px] font-mono text-white bg-indigo-500 px-1.5 py-0.5 rounded shadow-lg shadow-indigo-200 z-20 animate-in zoom-in">
-                    u={u[rIndex]}
+                    u={formatValue(u[rIndex]!)}
                   </span>
                 )}
               </div>
@@ -115,16 +390,65 @@ const Tableau: React.FC<TableauProps> = ({ solverState, problem }) => {
           </div>
           {Array.from({ length: cols }).map((_, cIndex) => (
             <div key={`dem-${cIndex}`} className="flex flex-col items-center justify-center p-3 font-bold text-slate-500 bg-slate-50 rounded-xl border border-slate-200/60 relative">
-               <span className="font-mono">{problem.demand[cIndex]}</span>
+               <span className={clsx("font-mono", isCrossedCol(cIndex) && "line-through text-slate-300")}>{problem && formatAllocation(problem.demand[cIndex])}</span>
+               {penaltyStep && penaltyStep.colPenalties![cIndex] !== null && (
+                  <span className={clsx(
+                    "absolute -top-2 left-1/2 -translate-x-1/2 text-[10px] font-mono px-1.5 py-0.5 rounded z-20",
+                    isChosenCol(cIndex) ? "text-white bg-amber-500 ring-2 ring-amber-200" : "text-amber-700 bg-amber-100 border border-amber-200"
+                  )} title="罚数 (Penalty)">
+                    P={penaltyStep.colPenalties![cIndex]}
+                  </span>
+                )}
                {v[cIndex] !== null && (
                   <span className="absolute -bottom-2 left-1/2 -translate-x-1/2 text-[10px] font-mono text-white bg-indigo-500 px-1.5 py-0.5 rounded shadow-lg shadow-indigo-200 z-20 animate-in zoom-in">
-                    v={v[cIndex]}
+                    v={formatValue(v[cIndex]!)}
                   </span>
                 )}
             </div>
           ))}
           <div className="bg-slate-100 rounded-xl opacity-20"></div> 
 
+          {/* Loop Path Overlay: segments drawn one by one from the entering cell */}
+          {loopPoints && (
+            <svg key={loopKey} className="absolute left-0 top-0 pointer-events-none z-20" width={loopPoints.width} height={loopPoints.height}>
+              {loopPoints.points.slice(0, -1).map((from, i) => {
+                const to = loopPoints.points[i + 1];
+                const angle = Math.atan2(to.y - from.y, to.x - from.x) * 180 / Math.PI;
+                return (
+                  <g key={`segment-${i}`}>
+                    <line
+                      x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                      pathLength={1}
+                      className="loop-segment"
+                      stroke="#4f46e5" strokeWidth={2.5} strokeLinecap="round" strokeOpacity={0.8}
+                      style={{ animationDelay: `${i * SEGMENT_SECONDS}s`, animationDuration: `${SEGMENT_SECONDS}s` }}
+                    />
+                    <polygon
+                      points="-6,-5 6,0 -6,5"
+                      transform={`translate(${(from.x + to.x) / 2}, ${(from.y + to.y) / 2}) rotate(${angle})`}
+                      className="loop-arrow"
+                      fill="#4f46e5"
+                      style={{ animationDelay: `${(i + 0.6) * SEGMENT_SECONDS}s` }}
+                    />
+                  </g>
+                );
+              })}
+              <circle cx={loopPoints.points[0].x} cy={loopPoints.points[0].y} r={6} fill="#22c55e" stroke="white" strokeWidth={2} />
+              {loopPreview?.leaving && (() => {
+                const index = loopPreview.loop.findIndex(n => n.r === loopPreview.leaving!.r && n.c === loopPreview.leaving!.c);
+                const point = loopPoints.points[index];
+                return point && (
+                  <circle
+                    cx={point.x} cy={point.y} r={26}
+                    className="loop-arrow"
+                    fill="none" stroke="#dc2626" strokeWidth={2} strokeDasharray="5 4"
+                    style={{ animationDelay: `${(loopPoints.points.length - 1) * SEGMENT_SECONDS}s` }}
+                  />
+                );
+              })()}
+            </svg>
+          )}
+
         </div>
       </div>
     </div>
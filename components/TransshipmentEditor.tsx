@@ -0,0 +1,114 @@
+import React from 'react';
+import { TransshipmentDraft } from '../types';
+import { isValidQuantity, sumDraftValues } from '../utils/problemInput';
+import { networkLabels } from '../utils/transshipment';
+import clsx from 'clsx';
+import { ArrowRight, Warehouse } from 'lucide-react';
+
+interface TransshipmentEditorProps {
+  draft: TransshipmentDraft;
+  onChange: (draft: TransshipmentDraft) => void;
+}
+
+const inputClass = (value: string, optional = false) => clsx(
+  "w-full text-center font-mono font-bold rounded-lg border bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 placeholder:text-slate-300",
+  isValidQuantity(value) || (optional && value.trim() === '') ? "border-slate-200 text-slate-700" : "border-red-400 bg-red-50 text-red-600"
+);
+
+// Arc cost matrix of the network: rows are the nodes goods leave from, columns the nodes they arrive at
+const TransshipmentEditor: React.FC<TransshipmentEditorProps> = ({ draft, onChange }) => {
+  const sources = draft.supply.length;
+  const hubs = draft.hubCount;
+  const { rows, cols } = networkLabels(draft);
+  const isHubRow = (r: number) => r >= sources;
+  const isHubCol = (c: number) => c < hubs;
+
+  const updateArc = (r: number, c: number, value: string) =>
+    onChange({ ...draft, arcCosts: draft.arcCosts.map((row, i) => i === r ? row.map((x, j) => j === c ? value : x) : row) });
+  const updateSupply = (r: number, value: string) => onChange({ ...draft, supply: draft.supply.map((x, i) => i === r ? value : x) });
+  const updateDemand = (c: number, value: string) => onChange({ ...draft, demand: draft.demand.map((x, i) => i === c ? value : x) });
+
+  const headerClass = (hub: boolean) => clsx(
+    "p-3 font-bold text-center rounded-xl border",
+    hub ? "text-teal-700 bg-teal-50 border-teal-200" : "text-slate-700 bg-slate-100 border-slate-200"
+  );
+
+  return (
+    <div className="overflow-x-auto tableau-scroll pb-4 w-full">
+      <div className="inline-block min-w-full">
+        <div className="grid gap-3" style={{ gridTemplateColumns: `auto repeat(${cols.length}, minmax(90px, 1fr)) auto` }}>
+          <div className="p-2 font-bold text-slate-400 text-center flex items-end justify-center text-[10px] uppercase tracking-wider">
+            至 <ArrowRight className="inline w-3 h-3 ml-1" />
+          </div>
+          {cols.map((label, c) => (
+            <div key={`head-${c}`} className={headerClass(isHubCol(c))}>
+              {label}
+              {isHubCol(c) && <div className="text-[10px] font-bold">转运点</div>}
+            </div>
+          ))}
+          <div className="p-3 font-bold text-indigo-600 text-center bg-indigo-50/50 rounded-xl border border-indigo-100">产量</div>
+
+          {draft.arcCosts.map((row, r) => (
+            <React.Fragment key={`row-${r}`}>
+              <div className={clsx(headerClass(isHubRow(r)), "flex flex-col items-center justify-center")}>
+                <span>{rows[r]}</span>
+                {isHubRow(r) && <Warehouse className="w-3 h-3" />}
+              </div>
+              {row.map((value, c) => r - sources === c ? (
+                <div key={`arc-${r}-${c}`} className="h-20 rounded-xl border border-dashed border-teal-200 bg-teal-50/40 flex flex-col items-center justify-center text-teal-700" title="转运点到自身：未被转运的缓冲库存">
+                  <span className="font-mono font-bold">0</span>
+                  <span className="text-[10px] font-bold">缓冲</span>
+                </div>
+              ) : (
+                <div key={`arc-${r}-${c}`} className="h-20 rounded-xl border border-slate-200 bg-white flex flex-col items-center justify-center gap-1 px-3">
+                  <span className="text-[10px] font-bold text-slate-400">{rows[r]}→{cols[c]}</span>
+                  <input
+                    value={value}
+                    inputMode="numeric"
+                    placeholder="无弧"
+                    onChange={(e) => updateArc(r, c, e.target.value)}
+                    className={clsx(inputClass(value, true), "py-1.5")}
+                  />
+                </div>
+              ))}
+              <div className="flex items-center justify-center p-2 bg-slate-50 rounded-xl border border-slate-200/60">
+                {isHubRow(r) ? (
+                  <span className="text-[10px] font-bold text-teal-600">转运</span>
+                ) : (
+                  <input
+                    value={draft.supply[r]}
+                    inputMode="numeric"
+                    onChange={(e) => updateSupply(r, e.target.value)}
+                    className={clsx(inputClass(draft.supply[r]), "w-16 py-1.5")}
+                  />
+                )}
+              </div>
+            </React.Fragment>
+          ))}
+
+          <div className="p-2 font-bold text-indigo-600 bg-indigo-50/50 rounded-xl border border-indigo-100 flex items-center justify-center">销量</div>
+          {cols.map((_, c) => (
+            <div key={`dem-${c}`} className="flex items-center justify-center p-3 bg-slate-50 rounded-xl border border-slate-200/60">
+              {isHubCol(c) ? (
+                <span className="text-[10px] font-bold text-teal-600">转运</span>
+              ) : (
+                <input
+                  value={draft.demand[c - hubs]}
+                  inputMode="numeric"
+                  onChange={(e) => updateDemand(c - hubs, e.target.value)}
+                  className={clsx(inputClass(draft.demand[c - hubs]), "py-1.5")}
+                />
+              )}
+            </div>
+          ))}
+          <div className="flex flex-col items-center justify-center p-2 rounded-xl border font-mono text-xs font-bold bg-slate-50 border-slate-200 text-slate-600">
+            <span title="总产量">Σa={sumDraftValues(draft.supply)}</span>
+            <span title="总销量">Σb={sumDraftValues(draft.demand)}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransshipmentEditor;
@@ -9,8 +9,13 @@ export interface Cell {
   isBasin: boolean; // Part of the basis
   highlight?: 'entering' | 'leaving' | 'loop-plus' | 'loop-minus' | 'none';
   opportunityCost?: number; // Delta_ij
+  prohibited?: boolean; // Blocked route, priced at big-M
+  capacity?: number | null; // Upper bound on the route, null = unbounded
+  atUpperBound?: boolean; // Non-basic cell held at its capacity (bounded-variable simplex)
 }
 
+export type Objective = 'min' | 'max';
+
 export interface ProblemState {
   costs: number[][]; // [row][col]
   supply: number[];
@@ -19,9 +24,108 @@ export interface ProblemState {
   initialDemand: number[];
   rowCount: number;
   colCount: number;
+  // Unbalanced input is balanced by appending a dummy last row (source) or column (destination)
+  dummy: 'source' | 'destination' | null;
+  objective: Objective; // 'max' treats costs as unit profits
+  prohibited: boolean[][]; // [row][col] blocked routes
+  capacities: (number | null)[][]; // [row][col] route upper bounds, null = unbounded
+  bigM: number; // Cost magnitude assigned to blocked routes, 0 when there are none
+  perturbed: boolean; // Supplies and demand carry ε terms (see EPSILON in utils/solver)
+}
+
+// Raw text typed into the tableau before the problem is validated
+export interface ProblemDraft {
+  costs: string[][]; // [row][col]
+  supply: string[];
+  demand: string[];
+  dummyCost: string; // Penalty per unit routed through a dummy source/destination
+  objective: Objective;
+  prohibited: boolean[][]; // [row][col], the cost entry is ignored when true
+  capacities: string[][]; // [row][col], blank = unbounded
+}
+
+// Versioned file format for saving and sharing a transportation problem
+export interface ProblemFile {
+  format: 'transportation-problem';
+  version: number;
+  objective: Objective;
+  costs: (number | null)[][]; // null = prohibited route
+  supply: number[];
+  demand: number[];
+  dummyCost: number;
+  capacities?: (number | null)[][]; // null = unbounded
+  allocation?: number[][]; // Plan shown when exported, including any dummy row/column added for balancing
+}
+
+export type ProblemMode = 'transportation' | 'transshipment' | 'assignment';
+
+// Network with pure sources, intermediate warehouses (transshipment nodes) and pure sinks
+export interface TransshipmentDraft {
+  supply: string[]; // one per source
+  demand: string[]; // one per sink
+  hubCount: number; // number of transshipment nodes
+  // [from][to], from = sources then hubs, to = hubs then sinks; blank = no arc
+  arcCosts: string[][];
 }
 
-export type SolverStatus = 'input' | 'ready' | 'potentials' | 'deltas' | 'loop' | 'optimal';
+export interface TransshipmentNetwork {
+  supply: number[];
+  demand: number[];
+  hubCount: number;
+  arcCosts: (number | null)[][];
+  buffer: number; // Buffer stock added to every hub row and column of the expanded tableau
+}
+
+export interface ArcFlow {
+  from: string;
+  to: string;
+  amount: number;
+  cost: number;
+}
+
+// One state of the Hungarian method on an n×n assignment cost matrix
+export type HungarianPhase = 'initial' | 'row-reduction' | 'col-reduction' | 'cover' | 'adjust' | 'optimal';
+
+export interface HungarianStep {
+  phase: HungarianPhase;
+  matrix: number[][]; // Reduced costs after this step
+  starred: boolean[][]; // Independent zeros of a maximum matching, i.e. the trial assignment
+  coveredRows: boolean[];
+  coveredCols: boolean[];
+  reductions?: number[]; // Row minima or column minima subtracted by a reduction step
+  minUncovered?: number; // Smallest uncovered entry used by an adjustment step
+}
+
+// 'infeasible' is also where a run stops when the engine reports an error
+export type SolverStatus = 'input' | 'initial' | 'ready' | 'potentials' | 'stepping-stone' | 'deltas' | 'loop' | 'optimal' | 'infeasible';
+
+// How Δ_ij of the non-basic cells is computed: u-v potentials or one closed loop per empty cell
+export type OptimalityMethod = 'modi' | 'stepping-stone';
+
+export type InitialMethod = 'least-cost' | 'northwest-corner' | 'vogel' | 'russell';
+
+// How the entering cell is chosen among the improving Δ_ij; Bland also breaks θ ties by smallest index
+export type PivotRule = 'most-negative' | 'first-negative' | 'bland' | 'largest-improvement';
+
+export interface TableauLine {
+  type: 'row' | 'col';
+  index: number;
+}
+
+// One allocation made while building the initial basic feasible solution
+export interface AllocationStep {
+  r: number;
+  c: number;
+  allocation: number; // 0 for a degenerate basic cell
+  atUpperBound?: boolean; // Capacitated only: the cell stays non-basic at its capacity
+  // Vogel only: penalties before this allocation (null = line already crossed out)
+  rowPenalties?: (number | null)[];
+  colPenalties?: (number | null)[];
+  chosenLine?: TableauLine;
+  // Russell only: Δ_ij = c_ij − ū_i − v̄_j before this allocation (null = crossed out)
+  russellDeltas?: (number | null)[][];
+  crossedLine?: TableauLine; // Line exhausted by this allocation (Vogel/Russell)
+}
 
 export interface SolverState {
   grid: Cell[][];
@@ -32,6 +136,144 @@ export interface SolverState {
   message: string;
   stepDescription: string;
   iteration: number;
+  // Pending allocations of the initial solution, revealed one per step while status is 'initial'
+  allocationSteps?: AllocationStep[];
+  allocationCursor?: number;
+  // Stepping-stone loops of every empty cell, revealed one per step while status is 'stepping-stone'
+  evaluations?: SteppingStoneEvaluation[];
+  evaluationCursor?: number;
+  // Distinct optimal plans reached so far by pivoting in zero-Δ cells, the first is the one the solver found
+  optimalSolutions?: Cell[][][];
+  // Basis of every iteration so far; a repeat means the pivots in between were degenerate and cycled
+  visitedBases?: string[];
+  cyclingDetected?: boolean; // Once set, Bland's rule replaces the selected pivot rule for the rest of the run
+  // Engine sub-steps of the current iteration not shown yet
+  pendingSteps?: EngineStep[];
+}
+
+// One pivot of a complete solve, recorded for reports: Δ come from the basis at the start of the iteration
+export interface IterationRecord {
+  iteration: number;
+  grid: Cell[][]; // Basis at the start of the iteration with every Δ_ij filled in
+  u: (number | null)[];
+  v: (number | null)[];
+  cost: number;
+  rule: PivotRule; // Rule actually applied (Bland once cycling was detected)
+  entering: LoopNode;
+  enteringDelta: number;
+  loop: LoopNode[];
+  signs: number[]; // +1/−1 per loop node, closing node excluded
+  theta: number;
+  leaving: LoopNode | null; // Equal to entering for a bound flip
+  isDegenerate: boolean;
+  newCost: number;
+}
+
+export interface SolutionTrace {
+  initial: Cell[][];
+  iterations: IterationRecord[];
+  final: Cell[][]; // Last basis with Δ filled in
+  finalU: (number | null)[];
+  finalV: (number | null)[];
+  outcome: EngineOutcome;
+  cyclingDetected: boolean;
+}
+
+// --- Engine trace ---
+
+// Sub-steps of one simplex iteration as utils/engine produces them; an iteration ends in
+// 'pivot' (next basis), 'optimal', 'infeasible' (optimum still uses a prohibited route) or 'error'
+export type EngineStep =
+  | { kind: 'potentials'; u: (number | null)[]; v: (number | null)[] }
+  | { kind: 'stepping-stone'; evaluations: SteppingStoneEvaluation[] }
+  | {
+      kind: 'deltas';
+      grid: Cell[][]; // Every Δ_ij filled in, entering cell highlighted
+      u: (number | null)[];
+      v: (number | null)[];
+      rule: PivotRule;
+      enteringCell: LoopNode | null;
+      enteringDelta: number;
+      matchesModi?: boolean; // Stepping-stone only: whether the loop Δ equal the MODI ones
+    }
+  | { kind: 'optimal'; grid: Cell[][]; cost: number }
+  | { kind: 'infeasible'; grid: Cell[][]; blockedFlow: Cell[] }
+  | { kind: 'loop'; grid: Cell[][]; entering: LoopNode; loop: LoopNode[]; signs: number[]; limits: number[] }
+  | { kind: 'pivot'; grid: Cell[][]; theta: number; leaving: LoopNode | null; tiedNodes: LoopNode[]; isDegenerate: boolean; cost: number }
+  | { kind: 'error'; message: string };
+
+export interface EngineOptions {
+  optimality: OptimalityMethod;
+  objective: Objective;
+  rule: PivotRule;
+}
+
+// How a complete solve ended: 'infeasible' is an optimum that still ships on a prohibited route,
+// 'limit' means the pivot limit was reached first
+export type EngineOutcome = 'optimal' | 'infeasible' | 'error' | 'limit';
+
+// Bases reached so far; a repeat means the degenerate pivots in between cycled, after which Bland's rule is used
+export interface BasisHistory {
+  visitedBases: string[];
+  cyclingDetected: boolean;
+}
+
+// A complete solve from the initial solution
+export interface EngineTrace extends BasisHistory {
+  initial: Cell[][];
+  iterations: { iteration: number; rule: PivotRule; steps: EngineStep[] }[];
+  outcome: EngineOutcome;
+  final: Cell[][]; // Last basis reached, with Δ filled in when the run ended on a test
+}
+
+// Objective value after each pivot, with the pivot that produced it (none for the initial solution)
+export interface ConvergencePoint {
+  iteration: number;
+  cost: number;
+  entering?: LoopNode;
+  delta?: number;
+  theta?: number;
+}
+
+// Practice answers checked so far: items right at the first check, items checked, hints taken
+export interface PracticeScore {
+  correct: number;
+  total: number;
+  hints: number;
+}
+
+// One run in the convergence chart; key identifies the settings so a rerun replaces its curve
+export interface ConvergenceSeries {
+  key: string;
+  label: string;
+  points: ConvergencePoint[];
+  outcome: EngineOutcome;
+}
+
+// Cost interval of one cell over which the current optimal basis stays optimal
+export interface CostRange {
+  r: number;
+  c: number;
+  cost: number;
+  isBasic: boolean;
+  lower: number; // -Infinity when unbounded
+  upper: number; // Infinity when unbounded
+}
+
+// Raising supply[r] and demand[c] together by δ: objective changes by marginal·δ while δ stays in range
+export interface PairRange {
+  r: number;
+  c: number;
+  marginal: number; // u_r + v_c
+  lower: number;
+  upper: number;
+}
+
+export interface AllocationChange {
+  r: number;
+  c: number;
+  from: number;
+  to: number;
 }
 
 export interface LoopNode {
@@ -39,6 +281,19 @@ export interface LoopNode {
   c: number;
 }
 
+// Closed loop of the pivot on screen: θ limit of each node (closing node excluded) and the node that leaves
+export interface LoopPreview {
+  loop: LoopNode[];
+  limits: number[];
+  leaving: LoopNode | null;
+}
+
+export interface SteppingStoneEvaluation {
+  cell: LoopNode;
+  loop: LoopNode[]; // Starts and ends at cell, signs alternate +, −, +, ...
+  delta: number;
+}
+
 export interface LogEntry {
   id: number;
   iteration: number;
@@ -46,4 +301,5 @@ export interface LogEntry {
   description: string;
   cost?: number;
   type: 'info' | 'success' | 'warning' | 'error';
+  snapshot?: number; // Index of the solver snapshot this entry led to, set once that snapshot is recorded
 }
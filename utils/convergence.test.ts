@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SolverState } from '../types';
+import { calculateTotalCost, createProblem } from './solver';
+import { findStep, solveTransportation } from './engine';
+import { convergenceSeries, recordedSeries } from './convergence';
+
+const problem = createProblem([[3, 11, 3, 10], [1, 9, 2, 8], [7, 4, 10, 5]], [7, 4, 9], [3, 6, 5, 6]);
+
+// The 'ready' and 'loop' snapshots a step-by-step run leaves for each iteration, then the optimal state
+const snapshots = (): SolverState[] => {
+  const run = solveTransportation(problem, 'northwest-corner', 'modi', 'most-negative');
+  const state = (fields: Partial<SolverState>): SolverState =>
+    ({ grid: run.initial, u: [], v: [], totalCost: 0, status: 'ready', message: '', stepDescription: '', iteration: 1, ...fields });
+  let grid = run.initial;
+  const states = run.iterations.flatMap(({ iteration, steps }) => {
+    const ready = state({ grid, totalCost: calculateTotalCost(grid), iteration });
+    const loop = findStep(steps, 'loop');
+    const pivot = findStep(steps, 'pivot');
+    if (!loop || !pivot) return [ready];
+    grid = pivot.grid;
+    return [ready, state({ grid: loop.grid, status: 'loop', iteration, pendingSteps: [pivot] })];
+  });
+  return [...states, state({ grid: run.final, status: 'optimal', iteration: run.iterations.length })];
+};
+
+describe('recordedSeries', () => {
+  it('matches a fresh solve with the same settings', () => {
+    const recorded = recordedSeries(snapshots(), problem, 'northwest-corner', 'modi', 'most-negative');
+    const solved = convergenceSeries(problem, 'northwest-corner', 'modi', 'most-negative');
+    expect(recorded).toEqual(solved);
+    expect(recorded.points[recorded.points.length - 1].cost).toBe(85);
+  });
+
+  it('counts each basis once when a state is recorded twice', () => {
+    const states = snapshots();
+    const once = recordedSeries(states, problem, 'northwest-corner', 'modi', 'most-negative');
+    expect(recordedSeries([states[0], ...states], problem, 'northwest-corner', 'modi', 'most-negative')).toEqual(once);
+  });
+});
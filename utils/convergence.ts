@@ -0,0 +1,56 @@
+import { ConvergencePoint, ConvergenceSeries, InitialMethod, OptimalityMethod, PivotRule, ProblemState, SolverState } from '../types';
+import { INITIAL_METHOD_LABELS, PIVOT_RULE_LABELS, calculateTotalCost, hasCapacities } from './solver';
+import { findStep, traceSolution } from './engine';
+
+const convergenceKey = (method: InitialMethod, optimality: OptimalityMethod, rule: PivotRule) =>
+  `${method}/${optimality}/${rule}`;
+
+const convergenceLabel = (problem: ProblemState, method: InitialMethod, rule: PivotRule) =>
+  `${hasCapacities(problem) ? '容量受限最小元素法' : INITIAL_METHOD_LABELS[method]} · ${PIVOT_RULE_LABELS[rule]}`;
+
+// Total cost from the initial solution through every pivot of a full solve
+export const convergenceSeries = (problem: ProblemState, method: InitialMethod, optimality: OptimalityMethod, rule: PivotRule): ConvergenceSeries => {
+  const trace = traceSolution(problem, method, optimality, rule);
+  return {
+    key: convergenceKey(method, optimality, rule),
+    label: convergenceLabel(problem, method, rule),
+    points: [
+      { iteration: 0, cost: calculateTotalCost(trace.initial) },
+      ...trace.iterations.map(record => ({
+        iteration: record.iteration, cost: record.newCost, entering: record.entering, delta: record.enteringDelta, theta: record.theta
+      }))
+    ],
+    outcome: trace.outcome
+  };
+};
+
+// The run as it was stepped through, read from its snapshots, so a rule or test changed mid-run and a switch to
+// Bland's rule show as they happened. Each 'ready' state is a basis reached; the 'loop' state before it has the pivot
+export const recordedSeries = (states: SolverState[], problem: ProblemState, method: InitialMethod, optimality: OptimalityMethod, rule: PivotRule): ConvergenceSeries => {
+  const points: ConvergencePoint[] = [];
+  let pivot: Omit<ConvergencePoint, 'iteration' | 'cost'> = {};
+  states.forEach(state => {
+    if (state.status === 'loop') {
+      const entering = state.grid.flat().find(c => c.highlight === 'entering');
+      pivot = {
+        entering: entering && { r: entering.row, c: entering.col }, delta: entering?.opportunityCost,
+        theta: findStep(state.pendingSteps ?? [], 'pivot')?.theta
+      };
+    }
+    if (state.status === 'ready' && !points.some(p => p.iteration === state.iteration - 1)) {
+      points.push({ iteration: state.iteration - 1, cost: state.totalCost, ...pivot });
+      pivot = {};
+    }
+  });
+  const last = states[states.length - 1];
+  return {
+    key: convergenceKey(method, optimality, rule),
+    label: convergenceLabel(problem, method, rule),
+    points,
+    outcome: last?.status === 'optimal' ? 'optimal' : last?.status === 'infeasible' ? 'infeasible' : 'limit'
+  };
+};
+
+// Runs are only comparable on the same data, including any ε perturbation
+export const problemSignature = (problem: ProblemState) =>
+  JSON.stringify([problem.costs, problem.supply, problem.demand, problem.objective, problem.capacities]);
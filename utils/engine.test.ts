@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { Cell, InitialMethod, OptimalityMethod, PivotRule, ProblemState } from '../types';
+import { applyProhibitedRoutes, calculateTotalCost, createProblem, perturbProblem, solveInitial } from './solver';
+import { countPivots, findStep, iterateBasis, solveTransportation, traceSolution } from './engine';
+
+const METHODS: InitialMethod[] = ['northwest-corner', 'least-cost', 'vogel', 'russell'];
+const RULES: PivotRule[] = ['most-negative', 'first-negative', 'bland', 'largest-improvement'];
+const TESTS: OptimalityMethod[] = ['modi', 'stepping-stone'];
+
+// Textbook instance with optimum 85
+const classic = () => createProblem([[3, 11, 3, 10], [1, 9, 2, 8], [7, 4, 10, 5]], [7, 4, 9], [3, 6, 5, 6]);
+
+// x11 = t, x12 = 10 − t, x21 = 10 − t, x22 = t: the objective is 70 − 4t on 0 ≤ t ≤ 10
+const twoByTwo = (extra: Partial<ProblemState> = {}): ProblemState => ({ ...createProblem([[1, 4], [3, 2]], [10, 10], [10, 10]), ...extra });
+
+const kinds = (grid: Cell[][], optimality: OptimalityMethod = 'modi') =>
+  iterateBasis(grid, { optimality, objective: 'min', rule: 'most-negative' }).map(step => step.kind);
+
+const rowSums = (grid: Cell[][]) => grid.map(row => row.reduce((sum, c) => sum + (c.allocation ?? 0), 0));
+const colSums = (grid: Cell[][]) => grid[0].map((_, j) => grid.reduce((sum, row) => sum + (row[j].allocation ?? 0), 0));
+
+describe('iterateBasis', () => {
+  it('tests, builds the loop and pivots from a non-optimal basis', () => {
+    const grid = solveInitial(classic(), 'northwest-corner');
+    expect(kinds(grid)).toEqual(['potentials', 'deltas', 'loop', 'pivot']);
+    expect(kinds(grid, 'stepping-stone')).toEqual(['stepping-stone', 'deltas', 'loop', 'pivot']);
+
+    const steps = iterateBasis(grid, { optimality: 'modi', objective: 'min', rule: 'most-negative' });
+    const deltas = findStep(steps, 'deltas')!;
+    const loop = findStep(steps, 'loop')!;
+    const pivot = findStep(steps, 'pivot')!;
+    expect(loop.entering).toEqual(deltas.enteringCell);
+    expect(loop.loop[0]).toEqual(loop.loop[loop.loop.length - 1]);
+    expect(deltas.grid[loop.entering.r][loop.entering.c].highlight).toBe('entering');
+    // θ is the smallest allocation on a − node, and the cost drops by |Δ|·θ
+    const minus = loop.loop.slice(0, -1).filter((_, i) => loop.signs[i] < 0);
+    expect(pivot.theta).toBe(Math.min(...minus.map(n => grid[n.r][n.c].allocation ?? 0)));
+    expect(pivot.cost).toBe(calculateTotalCost(grid) + deltas.enteringDelta * pivot.theta);
+    expect(pivot.grid.flat().filter(c => c.isBasin)).toHaveLength(3 + 4 - 1);
+  });
+
+  it('finds the same Δ with both optimality tests', () => {
+    const grid = solveInitial(classic(), 'northwest-corner');
+    const modi = findStep(iterateBasis(grid, { optimality: 'modi', objective: 'min', rule: 'most-negative' }), 'deltas')!;
+    const stone = findStep(iterateBasis(grid, { optimality: 'stepping-stone', objective: 'min', rule: 'most-negative' }), 'deltas')!;
+    expect(stone.matchesModi).toBe(true);
+    expect(stone.grid.map(row => row.map(c => c.opportunityCost))).toEqual(modi.grid.map(row => row.map(c => c.opportunityCost)));
+  });
+
+  it('stops at the optimal basis', () => {
+    const final = solveTransportation(classic(), 'vogel', 'modi', 'most-negative').final;
+    const basis = final.map(row => row.map(c => ({ ...c, opportunityCost: undefined })));
+    expect(kinds(basis)).toEqual(['potentials', 'deltas', 'optimal']);
+  });
+
+  it('reports a basis that is not a spanning tree', () => {
+    const grid = solveInitial(classic(), 'northwest-corner');
+    grid[0][0] = { ...grid[0][0], isBasin: false, allocation: null };
+    expect(kinds(grid)).toEqual(['error']);
+  });
+});
+
+describe('solveTransportation', () => {
+  it('reaches 85 on the classic instance from every start, rule and test', () => {
+    for (const method of METHODS) for (const rule of RULES) for (const optimality of TESTS) {
+      const run = solveTransportation(classic(), method, optimality, rule);
+      expect(run.outcome).toBe('optimal');
+      expect(calculateTotalCost(run.final)).toBe(85);
+      expect(rowSums(run.final)).toEqual([7, 4, 9]);
+      expect(colSums(run.final)).toEqual([3, 6, 5, 6]);
+    }
+  });
+
+  it('lowers the cost with every pivot and ends each iteration but the last on a pivot', () => {
+    const run = solveTransportation(classic(), 'northwest-corner', 'modi', 'most-negative');
+    const costs = run.iterations.slice(0, -1).map(({ steps }) => {
+      expect(steps[steps.length - 1].kind).toBe('pivot');
+      return findStep(steps, 'pivot')!.cost;
+    });
+    [calculateTotalCost(run.initial), ...costs].reduce((previous, cost) => {
+      expect(cost).toBeLessThanOrEqual(previous);
+      return cost;
+    });
+    expect(run.visitedBases).toHaveLength(run.iterations.length);
+  });
+
+  it('passes through a degenerate pivot, which ε perturbation removes', () => {
+    const problem = createProblem([[2, 3, 4], [5, 1, 6], [3, 7, 2]], [10, 20, 15], [10, 20, 15]);
+    const pivots = (p: ProblemState) => solveTransportation(p, 'northwest-corner', 'modi', 'most-negative')
+      .iterations.flatMap(({ steps }) => findStep(steps, 'pivot') ?? []);
+
+    const plain = solveTransportation(problem, 'northwest-corner', 'modi', 'most-negative');
+    expect(plain.outcome).toBe('optimal');
+    expect(calculateTotalCost(plain.final)).toBe(70);
+    expect(pivots(problem).some(step => step.theta === 0 && step.isDegenerate)).toBe(true);
+
+    const perturbed = solveTransportation(perturbProblem(problem), 'northwest-corner', 'modi', 'most-negative');
+    expect(perturbed.outcome).toBe('optimal');
+    expect(Math.round(calculateTotalCost(perturbed.final))).toBe(70);
+    expect(pivots(perturbProblem(problem)).every(step => step.theta > 0)).toBe(true);
+    expect(perturbed.final.flat().filter(c => c.isBasin).every(c => (c.allocation ?? 0) > 0)).toBe(true);
+  });
+
+  it('avoids a prohibited route priced at big-M when it can', () => {
+    const prohibited = [[true, false], [false, false]];
+    const problem = applyProhibitedRoutes(twoByTwo({ prohibited }));
+    const run = solveTransportation(problem, 'least-cost', 'modi', 'most-negative');
+    expect(run.outcome).toBe('optimal');
+    expect(run.final[0][0].allocation ?? 0).toBe(0);
+    expect(calculateTotalCost(run.final)).toBe(70);
+  });
+
+  it('reports infeasible when the big-M optimum still uses a prohibited route', () => {
+    // D2 can only be reached over prohibited routes
+    const prohibited = [[false, true], [false, true]];
+    const problem = applyProhibitedRoutes(twoByTwo({ prohibited }));
+    const run = solveTransportation(problem, 'least-cost', 'modi', 'most-negative');
+    expect(run.outcome).toBe('infeasible');
+    const verdict = findStep(run.iterations[run.iterations.length - 1].steps, 'infeasible');
+    expect(verdict?.blockedFlow.length).toBeGreaterThan(0);
+
+    expect(traceSolution(problem, 'least-cost', 'modi', 'most-negative').outcome).toBe('infeasible');
+    expect(countPivots(problem, 'least-cost', 'modi', 'most-negative').pivots).toBeNull();
+  });
+
+  it('does not count an ε-sized amount on a prohibited route as blocked flow', () => {
+    // x11 = x22 = 10 is feasible, but S1's extra ε can only reach D2, which takes the perturbed surplus, over x12
+    const prohibited = [[false, true], [false, false]];
+    const problem = perturbProblem(applyProhibitedRoutes(twoByTwo({ prohibited })));
+    const run = solveTransportation(problem, 'least-cost', 'modi', 'most-negative');
+    expect(run.final[0][1].allocation ?? 0).toBeGreaterThan(0);
+    expect(run.outcome).toBe('optimal');
+  });
+
+  it('keeps route capacities, with the bounded cell non-basic at its capacity', () => {
+    const capacities = [[6, null], [null, null]];
+    for (const optimality of TESTS) {
+      const run = solveTransportation(twoByTwo({ capacities }), 'least-cost', optimality, 'most-negative');
+      expect(run.outcome).toBe('optimal');
+      expect(calculateTotalCost(run.final)).toBe(70 - 4 * 6);
+      expect(run.final[0][0]).toMatchObject({ allocation: 6, atUpperBound: true, isBasin: false });
+      expect(rowSums(run.final)).toEqual([10, 10]);
+      expect(colSums(run.final)).toEqual([10, 10]);
+    }
+  });
+
+  it('maximizes profit when the objective is max', () => {
+    for (const method of METHODS) for (const rule of RULES) {
+      const run = solveTransportation(twoByTwo({ objective: 'max' }), method, 'modi', rule);
+      expect(run.outcome).toBe('optimal');
+      expect(calculateTotalCost(run.final)).toBe(70);
+      expect(run.final.flat().filter(c => !c.isBasin).every(c => (c.opportunityCost ?? 0) <= 0)).toBe(true);
+    }
+  });
+
+  it('stops at the iteration limit', () => {
+    const run = solveTransportation(classic(), 'northwest-corner', 'modi', 'most-negative', 1);
+    expect(run.outcome).toBe('limit');
+    expect(run.iterations).toHaveLength(1);
+  });
+});
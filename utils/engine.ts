@@ -0,0 +1,139 @@
+import { BasisHistory, Cell, EngineOptions, EngineStep, EngineTrace, InitialMethod, IterationRecord, OptimalityMethod, PivotRule, ProblemState, SolutionTrace } from '../types';
+import {
+  applyPivot, basisKey, calculateOpportunityCosts, calculatePotentials, calculateSteppingStoneCosts, calculateTotalCost,
+  findLoop, findProhibitedFlow, getLoopSigns, haveSameDeltas, loopLimits, solveInitial, validateBasis
+} from './solver';
+
+// Headless transportation simplex: every caller (step-by-step view, auto-solve, reports, share-link replay)
+// reads the same typed steps instead of repeating the potentials → Δ → loop → pivot sequence
+
+// Step of the given kind in one iteration, if the iteration got that far
+export const findStep = <K extends EngineStep['kind']>(steps: EngineStep[], kind: K) =>
+  steps.find(s => s.kind === kind) as Extract<EngineStep, { kind: K }> | undefined;
+
+// --- One Iteration ---
+
+// Sub-steps from one basis: the test (potentials or stepping-stone loops, then Δ), then either the verdict
+// or the loop and the pivot to the next basis
+export const iterateBasis = (grid: Cell[][], { optimality, objective, rule }: EngineOptions): EngineStep[] => {
+  // The basis must be a spanning tree, otherwise potentials and loops are undefined
+  if (!validateBasis(grid).isSpanningTree) return [{ kind: 'error', message: "基变量不构成生成树，无法计算位势" }];
+
+  const steps: EngineStep[] = [];
+  const { u, v } = calculatePotentials(grid, grid.length, grid[0].length);
+  let deltas;
+  let matchesModi: boolean | undefined;
+  if (optimality === 'stepping-stone') {
+    deltas = calculateSteppingStoneCosts(grid, objective, rule);
+    matchesModi = haveSameDeltas(deltas.grid, calculateOpportunityCosts(grid, u, v).grid);
+    steps.push({ kind: 'stepping-stone', evaluations: deltas.evaluations });
+  } else {
+    steps.push({ kind: 'potentials', u, v });
+    deltas = calculateOpportunityCosts(grid, u, v, objective, rule);
+  }
+  const { enteringCell, enteringDelta, isOptimal } = deltas;
+  const tested = deltas.grid.map(row => row.map(c => ({ ...c, highlight: 'none' as Cell['highlight'] })));
+  if (enteringCell) tested[enteringCell.r][enteringCell.c].highlight = 'entering';
+  steps.push({ kind: 'deltas', grid: tested, u, v, rule, enteringCell, enteringDelta, matchesModi });
+
+  if (isOptimal || !enteringCell) {
+    const blockedFlow = findProhibitedFlow(tested);
+    steps.push(blockedFlow.length > 0
+      ? { kind: 'infeasible', grid: tested, blockedFlow }
+      : { kind: 'optimal', grid: tested, cost: calculateTotalCost(tested) });
+    return steps;
+  }
+
+  const loop = findLoop(enteringCell, tested);
+  if (!loop) return [...steps, { kind: 'error', message: "无法找到闭回路 (退化或逻辑错误)" }];
+  const signs = getLoopSigns(loop, tested);
+  const withLoop = tested.map(row => row.map(c => ({ ...c })));
+  loop.slice(1, -1).forEach((node, i) => { withLoop[node.r][node.c].highlight = signs[i + 1] > 0 ? 'loop-plus' : 'loop-minus'; });
+  steps.push({ kind: 'loop', grid: withLoop, entering: enteringCell, loop, signs, limits: loopLimits(tested, loop) });
+
+  const pivot = applyPivot(tested, loop, rule);
+  const next = pivot.newGrid.map(row => row.map(c => ({ ...c, opportunityCost: undefined, highlight: 'none' as const })));
+  steps.push({
+    kind: 'pivot', grid: next, theta: pivot.theta, leaving: pivot.leavingNode, tiedNodes: pivot.tiedNodes,
+    isDegenerate: pivot.isDegenerate, cost: calculateTotalCost(next)
+  });
+  return steps;
+};
+
+// --- Complete Runs ---
+
+// Adds the basis reached by a pivot; `repeated` is the iteration index of the earlier identical basis when this
+// pivot is the one that reveals cycling, -1 otherwise
+export const recordBasis = (history: BasisHistory, grid: Cell[][]): BasisHistory & { repeated: number } => {
+  const key = basisKey(grid);
+  const repeated = history.cyclingDetected ? -1 : history.visitedBases.indexOf(key);
+  return { visitedBases: [...history.visitedBases, key], cyclingDetected: history.cyclingDetected || repeated !== -1, repeated };
+};
+
+// Iterates from a given basis until a verdict, an error or `limit` iterations
+export const solveFromBasis = (initial: Cell[][], { optimality, objective, rule }: EngineOptions, limit = 200): EngineTrace => {
+  const iterations: EngineTrace['iterations'] = [];
+  let history: BasisHistory = { visitedBases: [basisKey(initial)], cyclingDetected: false };
+  let grid = initial;
+
+  for (let iteration = 1; iteration <= limit; iteration++) {
+    const active = history.cyclingDetected ? 'bland' : rule;
+    const steps = iterateBasis(grid, { optimality, objective, rule: active });
+    iterations.push({ iteration, rule: active, steps });
+    const last = steps[steps.length - 1];
+    if (last.kind === 'optimal' || last.kind === 'infeasible') return { initial, iterations, outcome: last.kind, final: last.grid, ...history };
+    if (last.kind !== 'pivot') return { initial, iterations, outcome: 'error', final: findStep(steps, 'deltas')?.grid ?? grid, ...history };
+    grid = last.grid;
+    const { visitedBases, cyclingDetected } = recordBasis(history, grid);
+    history = { visitedBases, cyclingDetected };
+  }
+  return { initial, iterations, outcome: 'limit', final: grid, ...history };
+};
+
+// Solves from scratch and keeps every sub-step. solveInitial throws when the capacities admit no feasible plan
+export const solveTransportation = (problem: ProblemState, method: InitialMethod, optimality: OptimalityMethod, rule: PivotRule, limit = 200): EngineTrace =>
+  solveFromBasis(solveInitial(problem, method), { optimality, objective: problem.objective, rule }, limit);
+
+// Basis after at most `limit` pivots, before any optimality test, as the interactive run would hold it
+export const runPivots = (problem: ProblemState, method: InitialMethod, optimality: OptimalityMethod, rule: PivotRule, limit = 200) => {
+  const run = solveTransportation(problem, method, optimality, rule, limit);
+  const pivots = run.iterations.flatMap(({ steps }) => findStep(steps, 'pivot') ?? []);
+  return {
+    grid: pivots.length > 0 ? pivots[pivots.length - 1].grid : run.initial, pivots: pivots.length,
+    outcome: run.outcome, visitedBases: run.visitedBases, cyclingDetected: run.cyclingDetected
+  };
+};
+
+// Pivots to the optimum, null when the run ends any other way
+export const countPivots = (problem: ProblemState, method: InitialMethod, optimality: OptimalityMethod, rule: PivotRule): { pivots: number | null, switchedToBland: boolean } => {
+  const run = runPivots(problem, method, optimality, rule);
+  return { pivots: run.outcome === 'optimal' ? run.pivots : null, switchedToBland: run.cyclingDetected };
+};
+
+// --- Trace for Reports ---
+
+// One record per pivot, as the reports and exports lay them out
+export const traceSolution = (problem: ProblemState, method: InitialMethod, optimality: OptimalityMethod, rule: PivotRule, limit = 200): SolutionTrace => {
+  const run = solveTransportation(problem, method, optimality, rule, limit);
+  const records: IterationRecord[] = [];
+  let before = run.initial;
+  run.iterations.forEach(({ iteration, rule: applied, steps }) => {
+    const tested = findStep(steps, 'deltas');
+    const loop = findStep(steps, 'loop');
+    const pivot = findStep(steps, 'pivot');
+    if (!tested || !loop || !pivot) return;
+    records.push({
+      iteration, grid: tested.grid, u: tested.u, v: tested.v, cost: calculateTotalCost(before), rule: applied,
+      entering: loop.entering, enteringDelta: tested.enteringDelta, loop: loop.loop, signs: loop.signs,
+      theta: pivot.theta, leaving: pivot.leaving, isDegenerate: pivot.isDegenerate, newCost: pivot.cost
+    });
+    before = pivot.grid;
+  });
+
+  const lastTest = run.outcome === 'limit' ? undefined : findStep(run.iterations[run.iterations.length - 1].steps, 'deltas');
+  const potentials = lastTest ?? calculatePotentials(run.final, problem.rowCount, problem.colCount);
+  return {
+    initial: run.initial, iterations: records, final: run.final, finalU: potentials.u, finalV: potentials.v,
+    outcome: run.outcome, cyclingDetected: run.cyclingDetected
+  };
+};
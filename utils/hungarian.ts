@@ -0,0 +1,146 @@
+import { HungarianStep } from '../types';
+import { createProblem, solveCapacitated } from './solver';
+import { findStep, solveFromBasis } from './engine';
+
+export const MAX_ASSIGNMENT_SIZE = 6;
+
+export const workerLabel = (r: number) => `W${r + 1}`;
+export const jobLabel = (c: number) => `J${c + 1}`;
+
+// --- Draft Helpers ---
+
+export const createBlankAssignment = (n: number): string[][] =>
+  Array.from({ length: n }, () => new Array(n).fill(''));
+
+export const generateRandomAssignment = (n: number): string[][] =>
+  Array.from({ length: n }, () => Array.from({ length: n }, () => String(Math.floor(Math.random() * 20) + 1)));
+
+export const parseAssignment = (draft: string[][]): { costs: number[][] | null; errors: string[] } => {
+  const errors: string[] = [];
+  const n = draft.length;
+  if (n < 2 || n > MAX_ASSIGNMENT_SIZE) errors.push(`指派问题规模必须在 2 到 ${MAX_ASSIGNMENT_SIZE} 之间`);
+  const invalid: string[] = [];
+  draft.forEach((row, r) => row.forEach((value, c) => {
+    if (!/^\d+$/.test(value.trim())) invalid.push(`c${r + 1}${c + 1}`);
+  }));
+  if (invalid.length > 0) errors.push(`效率 (成本) 须为非负整数: ${invalid.join(', ')}`);
+  if (errors.length > 0) return { costs: null, errors };
+  return { costs: draft.map(row => row.map(value => parseInt(value, 10))), errors };
+};
+
+// --- Hungarian Method ---
+
+// Maximum matching on the zero entries (Kuhn's augmenting paths); matchOfCol[c] is the row or -1
+const matchZeros = (matrix: number[][]) => {
+  const n = matrix.length;
+  const matchOfCol = new Array(n).fill(-1);
+  const augment = (r: number, seen: boolean[]): boolean => {
+      for (let c = 0; c < n; c++) {
+          if (matrix[r][c] !== 0 || seen[c]) continue;
+          seen[c] = true;
+          if (matchOfCol[c] === -1 || augment(matchOfCol[c], seen)) {
+              matchOfCol[c] = r;
+              return true;
+          }
+      }
+      return false;
+  };
+  for (let r = 0; r < n; r++) augment(r, new Array(n).fill(false));
+  return matchOfCol;
+};
+
+// Minimum line cover from the matching (König): mark unmatched rows, then alternately zero columns of
+// marked rows and matched rows of marked columns; lines go through unmarked rows and marked columns
+const coverZeros = (matrix: number[][], matchOfCol: number[]) => {
+  const n = matrix.length;
+  const matchOfRow = new Array(n).fill(-1);
+  matchOfCol.forEach((r, c) => { if (r !== -1) matchOfRow[r] = c; });
+  const markedRows = matchOfRow.map(c => c === -1);
+  const markedCols = new Array(n).fill(false);
+  let changed = true;
+  while (changed) {
+      changed = false;
+      for (let r = 0; r < n; r++) {
+          if (!markedRows[r]) continue;
+          for (let c = 0; c < n; c++) {
+              if (matrix[r][c] === 0 && !markedCols[c]) {
+                  markedCols[c] = true;
+                  changed = true;
+                  if (matchOfCol[c] !== -1 && !markedRows[matchOfCol[c]]) markedRows[matchOfCol[c]] = true;
+              }
+          }
+      }
+  }
+  return { coveredRows: markedRows.map(m => !m), coveredCols: markedCols };
+};
+
+const toStarred = (matchOfCol: number[]) => {
+  const n = matchOfCol.length;
+  const starred = Array.from({ length: n }, () => new Array(n).fill(false));
+  matchOfCol.forEach((r, c) => { if (r !== -1) starred[r][c] = true; });
+  return starred;
+};
+
+export const solveHungarian = (costs: number[][]): { steps: HungarianStep[]; assignment: number[]; totalCost: number } => {
+  const n = costs.length;
+  const steps: HungarianStep[] = [];
+  const none = () => new Array(n).fill(false);
+  const emptyStars = () => Array.from({ length: n }, () => new Array(n).fill(false));
+  let matrix = costs.map(row => [...row]);
+
+  steps.push({ phase: 'initial', matrix, starred: emptyStars(), coveredRows: none(), coveredCols: none() });
+
+  const rowMin = matrix.map(row => Math.min(...row));
+  matrix = matrix.map((row, r) => row.map(x => x - rowMin[r]));
+  steps.push({ phase: 'row-reduction', matrix, starred: emptyStars(), coveredRows: none(), coveredCols: none(), reductions: rowMin });
+
+  const colMin = matrix[0].map((_, c) => Math.min(...matrix.map(row => row[c])));
+  matrix = matrix.map(row => row.map((x, c) => x - colMin[c]));
+  steps.push({ phase: 'col-reduction', matrix, starred: emptyStars(), coveredRows: none(), coveredCols: none(), reductions: colMin });
+
+  // Each adjustment adds at least one uncovered zero, so n² rounds are a safe upper bound
+  for (let round = 0; round <= n * n; round++) {
+      const matchOfCol = matchZeros(matrix);
+      const starred = toStarred(matchOfCol);
+      if (matchOfCol.every(r => r !== -1)) {
+          steps.push({ phase: 'optimal', matrix, starred, coveredRows: none(), coveredCols: none() });
+          break;
+      }
+      const { coveredRows, coveredCols } = coverZeros(matrix, matchOfCol);
+      steps.push({ phase: 'cover', matrix, starred, coveredRows, coveredCols });
+
+      let minUncovered = Infinity;
+      matrix.forEach((row, r) => row.forEach((x, c) => {
+          if (!coveredRows[r] && !coveredCols[c]) minUncovered = Math.min(minUncovered, x);
+      }));
+      matrix = matrix.map((row, r) => row.map((x, c) => {
+          if (!coveredRows[r] && !coveredCols[c]) return x - minUncovered;
+          if (coveredRows[r] && coveredCols[c]) return x + minUncovered;
+          return x;
+      }));
+      steps.push({ phase: 'adjust', matrix, starred: emptyStars(), coveredRows, coveredCols, minUncovered });
+  }
+
+  const final = steps[steps.length - 1];
+  const assignment = final.starred.map(row => row.indexOf(true));
+  const totalCost = assignment.reduce((sum, c, r) => sum + costs[r][c], 0);
+  return { steps, assignment, totalCost };
+};
+
+// Number of lines drawn by a cover step
+export const countLines = (step: HungarianStep) =>
+  step.coveredRows.filter(Boolean).length + step.coveredCols.filter(Boolean).length;
+
+// --- Cross-check ---
+
+// The same costs as a transportation problem with unit supplies and demands; its basis has n - 1 zero cells,
+// so the start is built by the spanning-tree construction rather than the plain least-cost method
+export const solveAssignmentBySimplex = (costs: number[][]): { cost: number | null; iterations: number; degenerateCells: number } => {
+  const n = costs.length;
+  const ones = new Array(n).fill(1);
+  const grid = solveCapacitated(createProblem(costs, ones, ones));
+  const degenerateCells = grid.flat().filter(c => c.isBasin && c.allocation === 0).length;
+  const run = solveFromBasis(grid, { optimality: 'modi', objective: 'min', rule: 'most-negative' }, 100);
+  const optimum = run.outcome === 'optimal' ? findStep(run.iterations[run.iterations.length - 1].steps, 'optimal') : undefined;
+  return { cost: optimum?.cost ?? null, iterations: run.iterations.length, degenerateCells };
+};
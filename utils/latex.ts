@@ -0,0 +1,132 @@
+import { Cell, EngineOutcome, IterationRecord, ProblemState, SolverState } from '../types';
+import { INITIAL_METHOD_LABELS, PIVOT_RULE_LABELS, calculateTotalCost, formatAllocation, formatWithBigM, hasCapacities } from './solver';
+import { traceSolution } from './engine';
+import { OUTCOME_TITLES, ReportOptions } from './report';
+
+// Cost in the top-right corner, content centred below; loop markers are small tikz circles.
+// \providecommand lets several exported snippets share one document
+const LATEX_MACROS = String.raw`\providecommand{\tcell}[2]{\begin{tabular}{@{}c@{}}\makebox[3.2em][r]{\scriptsize\fbox{#1}}\\[-1pt]\rule{0pt}{1.4em}#2\end{tabular}}
+\providecommand{\lplus}{\tikz[baseline=-.6ex]\node[circle,draw=green!50!black,text=green!50!black,inner sep=.6pt,font=\tiny]{$+$};}
+\providecommand{\lminus}{\tikz[baseline=-.6ex]\node[circle,draw=red!70!black,text=red!70!black,inner sep=.6pt,font=\tiny]{$-$};}
+\providecommand{\lenter}{\tikz[baseline=-.6ex]\node[rectangle,draw=green!50!black,fill=green!15,inner sep=1pt,font=\tiny]{$+$};}`;
+
+// Quantities such as 5+2ε, -ε or 2M-5 as inline math
+const math = (text: string) => `$${text.replace(/ε/g, '\\varepsilon').replace(/−/g, '-')}$`;
+
+// S1 → $S_{1}$; other labels are escaped as text
+const label = (text: string) => {
+  const match = /^([A-Za-z])(\d+)$/.exec(text);
+  return match ? `$${match[1]}_{${match[2]}}$` : text.replace(/([&%$#_{}])/g, '\\$1');
+};
+
+interface TableauOptions {
+  u?: (number | null)[];
+  v?: (number | null)[];
+  rowLabels?: string[];
+  colLabels?: string[];
+}
+
+// One tabular: allocations of basic cells, Δ of the others, markers from each cell's highlight
+export const tableauToLatex = (grid: Cell[][], problem: ProblemState, { u, v, rowLabels, colLabels }: TableauOptions = {}): string => {
+  const m = (value: number) => math(formatWithBigM(value, problem.bigM));
+  const showU = !!u && u.some(x => x !== null);
+  const showV = !!v && v.some(x => x !== null);
+  const cols = grid[0].length;
+  const lines: string[] = [];
+
+  lines.push(`\\begin{tabular}{|c|${'c|'.repeat(cols)}c|${showU ? 'c|' : ''}}`, '\\hline');
+  lines.push([' ', ...grid[0].map((_, c) => label(colLabels?.[c] ?? `D${c + 1}`)), '$a_i$', ...(showU ? ['$u_i$'] : [])].join(' & ') + ' \\\\ \\hline');
+  grid.forEach((row, r) => {
+    const cells = row.map(cell => {
+      const corner = cell.prohibited ? '$M$' : m(cell.cost);
+      let content = '';
+      if (cell.isBasin || cell.atUpperBound) content = `$\\mathbf{${formatAllocation(cell.allocation ?? 0).replace(/ε/g, '\\varepsilon')}}$`;
+      else if (cell.opportunityCost !== undefined) content = `{\\footnotesize $\\Delta=${formatWithBigM(cell.opportunityCost, problem.bigM)}$}`;
+      const marker = cell.highlight === 'entering' ? '\\lenter' : cell.highlight === 'loop-plus' ? '\\lplus' : cell.highlight === 'loop-minus' ? '\\lminus' : '';
+      return `\\tcell{${corner}}{${[content, marker].filter(Boolean).join(' ')}}`;
+    });
+    const margins = [math(formatAllocation(problem.supply[r])), ...(showU ? [u![r] === null ? '?' : m(u![r]!)] : [])];
+    lines.push([label(rowLabels?.[r] ?? `S${r + 1}`), ...cells, ...margins].join(' & ') + ' \\\\ \\hline');
+  });
+  lines.push(['$b_j$', ...problem.demand.map(b => math(formatAllocation(b))), ' ', ...(showU ? [' '] : [])].join(' & ') + ' \\\\ \\hline');
+  if (showV) lines.push(['$v_j$', ...v!.map(x => x === null ? '?' : m(x)), ' ', ...(showU ? [' '] : [])].join(' & ') + ' \\\\ \\hline');
+  lines.push('\\end{tabular}');
+  return lines.join('\n');
+};
+
+// The tableau on screen as a pasteable snippet (needs tikz and xcolor)
+export const solverStateToLatex = (state: SolverState, problem: ProblemState, labels: { rowLabels?: string[]; colLabels?: string[] } = {}): string =>
+  `% ${state.message}\n% \\usepackage{tikz}\n${LATEX_MACROS}\n\\begin{center}\n${tableauToLatex(state.grid, problem, { u: state.u, v: state.v, ...labels })}\n\\end{center}\n`;
+
+// Record grid with the highlights the step-by-step view shows for that iteration
+const highlightRecord = (record: IterationRecord): Cell[][] => {
+  const grid = record.grid.map(row => row.map(c => ({ ...c, highlight: 'none' as Cell['highlight'] })));
+  record.loop.slice(0, -1).forEach((node, i) => {
+    grid[node.r][node.c].highlight = i === 0 ? 'entering' : record.signs[i] > 0 ? 'loop-plus' : 'loop-minus';
+  });
+  return grid;
+};
+
+// u_i + v_j = c_ij for every basic cell, followed by the solution
+const potentialEquations = (grid: Cell[][], u: (number | null)[], v: (number | null)[], bigM: number) => {
+  const equations = grid.flat().filter(c => c.isBasin).map(c => `u_{${c.row + 1}} + v_{${c.col + 1}} &= ${formatWithBigM(c.cost, bigM)}`);
+  const values = [...u.map((x, i) => `u_{${i + 1}} = ${x === null ? '?' : formatWithBigM(x, bigM)}`), ...v.map((x, j) => `v_{${j + 1}} = ${x === null ? '?' : formatWithBigM(x, bigM)}`)];
+  return `\\begin{align*}\n${equations.join(' \\\\\n')}\n\\end{align*}\n取 $u_1 = 0$，解得 $${values.join(',\\ ')}$。`;
+};
+
+// Opening of the closing sentence, by how the solve ended
+const OUTCOME_NOTES: Record<EngineOutcome, string> = {
+  optimal: '所有检验数均满足最优条件，',
+  infeasible: '检验数已满足最优条件，但方案仍经禁运路线，问题不存在可行方案；',
+  error: '求解中止，',
+  limit: '达到迭代上限，'
+};
+
+// Whole solve as a standalone document (ctex for the Chinese text): one table per iteration with its equations
+export const solutionToLatex = ({ problem, method, optimality, rule, rowLabels, colLabels }: ReportOptions): string => {
+  const trace = traceSolution(problem, method, optimality, rule);
+  const labels = { rowLabels, colLabels };
+  const total = problem.objective === 'max' ? '总利润' : '总运费';
+  // x_{12}, or x_{1,12} once an index has two digits
+  const sep = Math.max(problem.rowCount, problem.colCount) > 9 ? ',' : '';
+  const x = (r: number, c: number) => `x_{${r + 1}${sep}${c + 1}}`;
+  const sections: string[] = [];
+
+  sections.push(
+    `\\section*{初始基可行解 (${hasCapacities(problem) ? '容量受限最小元素法' : INITIAL_METHOD_LABELS[method]})}`,
+    `\\begin{center}\n${tableauToLatex(trace.initial, problem, labels)}\n\\end{center}`,
+    `初始${total} $${trace.iterations[0]?.cost ?? calculateTotalCost(trace.final)}$。`
+  );
+  trace.iterations.forEach(record => {
+    const nodes = record.loop.slice(0, -1);
+    const minus = nodes.filter((_, i) => record.signs[i] < 0).map(n => math(`${x(n.r, n.c)} = ${formatAllocation(record.grid[n.r][n.c].allocation ?? 0)}`));
+    const leaving = record.leaving && !(record.leaving.r === record.entering.r && record.leaving.c === record.entering.c)
+      ? `$${x(record.leaving.r, record.leaving.c)}$ 出基` : '调入格在 0 与容量之间翻转，基不变';
+    sections.push(
+      `\\subsection*{第 ${record.iteration} 轮}`,
+      potentialEquations(record.grid, record.u, record.v, problem.bigM),
+      `\\begin{center}\n${tableauToLatex(highlightRecord(record), problem, { u: record.u, v: record.v, ...labels })}\n\\end{center}`,
+      `按${PIVOT_RULE_LABELS[record.rule]}规则，$${x(record.entering.r, record.entering.c)}$ 以 $\\Delta = ${formatWithBigM(record.enteringDelta, problem.bigM)}$ 调入；` +
+      `闭回路 $${record.loop.map(n => x(n.r, n.c)).join(' \\to ')}$，$\\theta = ${formatAllocation(record.theta).replace(/ε/g, '\\varepsilon')}$` +
+      `${minus.length > 0 ? ` (取自 ${minus.join('，')})` : ''}，${leaving}。${total}由 $${record.cost}$ 变为 $${record.newCost}$。`
+    );
+  });
+  const isOptimal = trace.outcome === 'optimal';
+  sections.push(
+    `\\section*{${OUTCOME_TITLES[trace.outcome]}}`,
+    ...(isOptimal ? [potentialEquations(trace.final, trace.finalU, trace.finalV, problem.bigM)] : []),
+    `\\begin{center}\n${tableauToLatex(trace.final, problem, isOptimal ? { u: trace.finalU, v: trace.finalV, ...labels } : labels)}\n\\end{center}`,
+    `${OUTCOME_NOTES[trace.outcome]}${total} $${calculateTotalCost(trace.final)}$。`
+  );
+
+  return [
+    '\\documentclass{article}',
+    '\\usepackage[UTF8]{ctex}',
+    '\\usepackage{amsmath,tikz}',
+    LATEX_MACROS,
+    '\\begin{document}',
+    ...sections,
+    '\\end{document}',
+    ''
+  ].join('\n\n');
+};
@@ -0,0 +1,69 @@
+import { Cell, LoopNode, Objective, PivotRule } from '../types';
+import { EPSILON, calculatePotentials, isImprovingDelta } from './solver';
+import { findStep, iterateBasis } from './engine';
+
+export type PracticeStage = 'potentials' | 'deltas' | 'entering' | 'loop' | 'theta' | 'done';
+
+export const PRACTICE_STAGE_LABELS: Record<PracticeStage, string> = {
+  potentials: '位势 u、v',
+  deltas: '检验数 Δ',
+  entering: '调入格',
+  loop: '闭回路',
+  theta: '调整量 θ',
+  done: '完成'
+};
+
+// Everything the student is asked for on one basis, as the solver computes it
+export interface PracticeKey {
+  u: (number | null)[];
+  v: (number | null)[];
+  deltas: Cell[][]; // opportunityCost set on every non-basic cell
+  enteringCell: LoopNode | null; // null when the basis is already optimal
+  enteringDelta: number;
+  loop: LoopNode[] | null;
+  theta: number | null;
+  leaving: LoopNode | null;
+}
+
+export const buildPracticeKey = (grid: Cell[][], objective: Objective, rule: PivotRule): PracticeKey => {
+  const steps = iterateBasis(grid, { optimality: 'modi', objective, rule });
+  const tested = findStep(steps, 'deltas');
+  const pivot = findStep(steps, 'pivot');
+  // A basis that is not a spanning tree has no test; the practice then only asks for what potentials exist
+  const { u, v } = tested ?? calculatePotentials(grid, grid.length, grid[0].length);
+  return {
+    u, v, deltas: tested?.grid ?? grid, enteringCell: tested?.enteringCell ?? null, enteringDelta: tested?.enteringDelta ?? 0,
+    loop: findStep(steps, 'loop')?.loop ?? null, theta: pivot?.theta ?? null, leaving: pivot?.leaving ?? null
+  };
+};
+
+// Accepts plain numbers and the symbolic forms the tableau shows: 2M-5, -M, 5+2ε, ε. Returns null if unreadable
+export const parseAnswer = (text: string, bigM: number): number | null => {
+  const normalized = text.replace(/\s+/g, '').replace(/[−–]/g, '-').replace(/[eE]/g, 'ε').replace(/m/g, 'M');
+  const term = '(\\d+(\\.\\d+)?)?[Mε]|\\d+(\\.\\d+)?';
+  if (!new RegExp(`^[+-]?(${term})([+-](${term}))*$`).test(normalized)) return null;
+  if (normalized.includes('M') && !bigM) return null;
+  return (normalized.match(/[+-]?[^+-]+/g) ?? []).reduce((sum, part) => {
+    const unit = part.endsWith('M') ? bigM : part.endsWith('ε') ? EPSILON : 1;
+    const digits = unit === 1 ? part : part.slice(0, -1);
+    const coefficient = digits === '' || digits === '+' ? 1 : digits === '-' ? -1 : Number(digits);
+    return sum + coefficient * unit;
+  }, 0);
+};
+
+export const isSameValue = (a: number, b: number) => Math.abs(a - b) < EPSILON / 4;
+
+// Whether `cell` continues the loop the student has clicked so far; either direction around the loop counts
+export const isNextLoopCell = (loop: LoopNode[], clicked: LoopNode[], cell: LoopNode) => {
+  const nodes = loop.slice(0, -1);
+  const directions = [nodes, [nodes[0], ...nodes.slice(1).reverse()]];
+  const same = (a: LoopNode, b: LoopNode) => a.r === b.r && a.c === b.c;
+  return directions.some(order => clicked.every((node, i) => same(node, order[i + 1])) && !!order[clicked.length + 1] && same(order[clicked.length + 1], cell));
+};
+
+// Tied Δ are correct arithmetic even when the rule picks another cell; the student is told why
+export const isTiedEntering = (key: PracticeKey, cell: LoopNode, objective: Objective) => {
+  const chosen = key.deltas[cell.r][cell.c];
+  return !!key.enteringCell && !chosen.isBasin && chosen.opportunityCost !== undefined
+    && isImprovingDelta(chosen.opportunityCost, objective, chosen.atUpperBound) && isSameValue(chosen.opportunityCost, key.enteringDelta);
+};
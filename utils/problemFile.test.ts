@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { ProblemDraft } from '../types';
+import { createBlankDraft, parseProblemDraft } from './problemInput';
+import { solveInitial } from './solver';
+import { exportProblemCsv, exportProblemJson, importProblem, parseSpreadsheet, problemFileToDraft } from './problemFile';
+
+// 2 × 3 with a prohibited route, a capacity and a non-default objective, so every field is exercised
+const sample = (): ProblemDraft => ({
+  ...createBlankDraft(2, 3),
+  costs: [['4', '', '6'], ['2', '5', '3']],
+  supply: ['20', '30'],
+  demand: ['10', '25', '15'],
+  objective: 'max',
+  prohibited: [[false, true, false], [false, false, false]],
+  capacities: [['8', '', ''], ['', '', '12']]
+});
+
+const validFile = () => JSON.parse(exportProblemJson(sample()));
+
+describe('problem file round trip', () => {
+  it('reads back what the JSON export writes', () => {
+    expect(importProblem(exportProblemJson(sample()))).toEqual({ draft: sample(), errors: [] });
+  });
+
+  it('reads back the objective and capacities from the CSV export', () => {
+    const csv = exportProblemCsv(sample());
+    expect(csv).toContain('目标,max');
+    expect(csv).toContain('容量,D1,D2,D3');
+    expect(importProblem(csv)).toEqual({ draft: sample(), errors: [] });
+  });
+
+  it('ignores the plan block of a CSV export', () => {
+    const grid = solveInitial(parseProblemDraft(sample()).problem!, 'northwest-corner');
+    const csv = exportProblemCsv(sample(), grid);
+    expect(csv).toContain('运量,D1,D2,D3');
+    expect(parseSpreadsheet(csv).draft).toEqual(sample());
+  });
+});
+
+describe('problemFileToDraft', () => {
+  it('rejects anything that is not a problem file', () => {
+    for (const data of [null, 42, 'text', [], { ...validFile(), format: 'other' }]) {
+      expect(problemFileToDraft(data).draft).toBeNull();
+    }
+  });
+
+  it('accepts only whole versions from 1 up to the supported one', () => {
+    for (const version of [0, -1, 1.5, 2, '1', undefined]) {
+      const { draft, errors } = problemFileToDraft({ ...validFile(), version });
+      expect(draft).toBeNull();
+      expect(errors[0]).toContain('不支持的文件版本');
+    }
+  });
+
+  it('rejects matrices that do not match supply and demand', () => {
+    const file = validFile();
+    expect(problemFileToDraft({ ...file, costs: file.costs.slice(1) }).errors).toContain('costs 须为 2 行 × 3 列的矩阵');
+    expect(problemFileToDraft({ ...file, costs: file.costs.map((row: unknown[]) => row.slice(1)) }).draft).toBeNull();
+    expect(problemFileToDraft({ ...file, capacities: [[1, 2, 3]] }).errors).toContain('capacities 须为 2 行 × 3 列的矩阵');
+  });
+
+  it('rejects invalid values and settings', () => {
+    const file = validFile();
+    expect(problemFileToDraft({ ...file, supply: [20, -30] }).draft).toBeNull();
+    expect(problemFileToDraft({ ...file, costs: [[4, 'M', 6], [2, 5, 3.5]] }).errors[0]).toContain('costs[0][1], costs[1][2]');
+    expect(problemFileToDraft({ ...file, objective: 'maximize' }).errors).toContain('objective 须为 "min" 或 "max"');
+    expect(problemFileToDraft({ ...file, dummyCost: -1 }).errors).toContain('dummyCost 须为非负整数');
+  });
+
+  it('passes a structurally valid file through the draft checks', () => {
+    // Well-formed, but 1 × 3 is below the minimum size
+    const { draft, errors } = problemFileToDraft({ ...validFile(), costs: [[4, null, 6]], supply: [50], capacities: undefined });
+    expect(draft).toBeNull();
+    expect(errors.length).toBeGreaterThan(0);
+  });
+
+  it('reports broken JSON', () => {
+    expect(importProblem('{ "format": ').errors).toEqual(['不是有效的 JSON 文件']);
+  });
+});
+
+describe('parseSpreadsheet', () => {
+  it('reads tab-separated cells pasted without labels', () => {
+    const { draft } = parseSpreadsheet('4\tM\t6\t20\n2\t5\t3\t30\n10\t25\t15\n');
+    expect(draft).toMatchObject({ costs: [['4', '', '6'], ['2', '5', '3']], supply: ['20', '30'], demand: ['10', '25', '15'] });
+    expect(draft!.prohibited[0][1]).toBe(true);
+  });
+
+  it('points at the cells it cannot read', () => {
+    const { draft, errors } = parseSpreadsheet(',D1,D2,产量\nS1,4,abc,20\nS2,,5,30\n销量,25,x\n');
+    expect(draft).toBeNull();
+    expect(errors).toEqual([
+      '第 2 行第 3 列 “abc” 不是有效运价 (禁运可填 M)',
+      '第 3 行第 2 列缺少运价',
+      '第 4 行第 3 列应为销量 (最后一行)，实为 “x”'
+    ]);
+  });
+
+  it('rejects empty input and a table without a supply column', () => {
+    expect(parseSpreadsheet('\n \n').errors).toEqual(['内容为空']);
+    expect(parseSpreadsheet('4\n10\n').draft).toBeNull();
+  });
+
+  it('rejects unknown objectives and misshapen capacity blocks', () => {
+    const csv = exportProblemCsv(sample());
+    expect(parseSpreadsheet(csv.replace('目标,max', '目标,maximize')).errors).toContain('目标须为 min 或 max，实为 “maximize”');
+    expect(parseSpreadsheet(csv.replace('S2,,,12', '')).errors).toContain('容量表须为 2 行 × 3 列');
+    expect(parseSpreadsheet(csv.replace('S2,,,12', 'S2,,,-1')).errors).toContain('容量 S2→D3 “-1” 须为非负整数或留空');
+  });
+});
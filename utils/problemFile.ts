@@ -0,0 +1,217 @@
+import { Cell, ProblemDraft, ProblemFile } from '../types';
+import { createBlankDraft, isValidQuantity, parseProblemDraft } from './problemInput';
+
+export const PROBLEM_FILE_FORMAT = 'transportation-problem';
+export const PROBLEM_FILE_VERSION = 1;
+
+// Spreadsheet cells that mark a prohibited route
+const PROHIBITED_MARKERS = ['M', 'm', '-', 'x', 'X', '×', '禁'];
+
+// First cell of the CSV blocks that follow the cost table
+const OBJECTIVE_LABEL = '目标';
+const CAPACITY_LABEL = '容量';
+
+// The shown plan rounded to whole units (ε perturbation is dropped)
+const allocationMatrix = (grid: Cell[][]) => grid.map(row => row.map(c => Math.round(c.allocation ?? 0)));
+
+// Imported drafts are checked like manual input, so an invalid file never reaches the tableau
+const withDraftErrors = (draft: ProblemDraft): { draft: ProblemDraft | null; errors: string[] } => {
+  const { errors } = parseProblemDraft(draft);
+  return errors.length > 0 ? { draft: null, errors } : { draft, errors };
+};
+
+// --- Export ---
+
+// Expects a draft that passes parseProblemDraft
+export const draftToProblemFile = (draft: ProblemDraft, grid?: Cell[][]): ProblemFile => {
+  const file: ProblemFile = {
+    format: PROBLEM_FILE_FORMAT,
+    version: PROBLEM_FILE_VERSION,
+    objective: draft.objective,
+    costs: draft.costs.map((row, r) => row.map((value, c) => draft.prohibited[r][c] ? null : parseInt(value, 10))),
+    supply: draft.supply.map(value => parseInt(value, 10)),
+    demand: draft.demand.map(value => parseInt(value, 10)),
+    dummyCost: parseInt(draft.dummyCost, 10)
+  };
+  if (draft.capacities.some(row => row.some(value => value.trim() !== ''))) {
+    file.capacities = draft.capacities.map(row => row.map(value => value.trim() === '' ? null : parseInt(value, 10)));
+  }
+  if (grid && grid.length > 0) file.allocation = allocationMatrix(grid);
+  return file;
+};
+
+export const exportProblemJson = (draft: ProblemDraft, grid?: Cell[][]): string =>
+  JSON.stringify(draftToProblemFile(draft, grid), null, 2);
+
+// Costs with supply as the last column and demand as the last row. Labelled blocks follow: the objective,
+// route capacities when any are set, and the plan
+export const exportProblemCsv = (draft: ProblemDraft, grid?: Cell[][]): string => {
+  const cols = draft.demand.length;
+  const header = ['', ...draft.demand.map((_, c) => `D${c + 1}`), '产量'];
+  const lines = [
+    header,
+    ...draft.costs.map((row, r) => [`S${r + 1}`, ...row.map((value, c) => draft.prohibited[r][c] ? 'M' : value.trim()), draft.supply[r].trim()]),
+    ['销量', ...draft.demand.map(value => value.trim()), '']
+  ].map(cells => cells.join(','));
+  lines.push('', `${OBJECTIVE_LABEL},${draft.objective}`);
+  if (draft.capacities.some(row => row.some(value => value.trim() !== ''))) {
+    lines.push('', [CAPACITY_LABEL, ...draft.demand.map((_, c) => `D${c + 1}`)].join(','));
+    draft.capacities.forEach((row, r) => lines.push([`S${r + 1}`, ...row.map(value => value.trim())].join(',')));
+  }
+  if (grid && grid.length > 0) {
+    const allocation = allocationMatrix(grid);
+    lines.push('', ['运量', ...allocation[0].map((_, c) => c < cols ? `D${c + 1}` : '虚拟销地')].join(','));
+    allocation.forEach((row, r) => lines.push([r < draft.supply.length ? `S${r + 1}` : '虚拟产地', ...row].join(',')));
+  }
+  return lines.join('\n') + '\n';
+};
+
+// --- Import ---
+
+// Checks a decoded file (from JSON or a share link) field by field before it becomes a draft
+export const problemFileToDraft = (data: unknown): { draft: ProblemDraft | null; errors: string[] } => {
+  const file = data as Partial<ProblemFile>;
+  if (!file || typeof file !== 'object' || file.format !== PROBLEM_FILE_FORMAT) {
+    return { draft: null, errors: [`缺少 "format": "${PROBLEM_FILE_FORMAT}"，不是运输问题文件`] };
+  }
+  if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1 || file.version > PROBLEM_FILE_VERSION) {
+    return { draft: null, errors: [`不支持的文件版本 ${file.version ?? '(缺失)'}，当前支持 v${PROBLEM_FILE_VERSION}`] };
+  }
+
+  const errors: string[] = [];
+  const isQuantity = (x: unknown) => typeof x === 'number' && Number.isInteger(x) && x >= 0;
+  const supply = Array.isArray(file.supply) ? file.supply : [];
+  const demand = Array.isArray(file.demand) ? file.demand : [];
+  if (supply.length === 0 || !supply.every(isQuantity)) errors.push("supply 须为非负整数数组");
+  if (demand.length === 0 || !demand.every(isQuantity)) errors.push("demand 须为非负整数数组");
+  const isMatrix = (m: unknown): m is unknown[][] =>
+    Array.isArray(m) && m.length === supply.length && m.every(row => Array.isArray(row) && row.length === demand.length);
+  if (!isMatrix(file.costs)) {
+    errors.push(`costs 须为 ${supply.length} 行 × ${demand.length} 列的矩阵`);
+  } else {
+    const invalid: string[] = [];
+    file.costs.forEach((row, r) => row.forEach((x, c) => { if (x !== null && !isQuantity(x)) invalid.push(`costs[${r}][${c}]`); }));
+    if (invalid.length > 0) errors.push(`运价须为非负整数或 null (禁运): ${invalid.join(', ')}`);
+  }
+  if (file.capacities !== undefined) {
+    if (!isMatrix(file.capacities)) errors.push(`capacities 须为 ${supply.length} 行 × ${demand.length} 列的矩阵`);
+    else if (file.capacities.some(row => row.some(x => x !== null && !isQuantity(x)))) errors.push("路线容量须为非负整数或 null (不限)");
+  }
+  if (file.objective !== undefined && file.objective !== 'min' && file.objective !== 'max') errors.push('objective 须为 "min" 或 "max"');
+  if (file.dummyCost !== undefined && !isQuantity(file.dummyCost)) errors.push("dummyCost 须为非负整数");
+  if (errors.length > 0) return { draft: null, errors };
+
+  const costs = file.costs as (number | null)[][];
+  return withDraftErrors({
+    costs: costs.map(row => row.map(x => x === null ? '' : String(x))),
+    supply: supply.map(String),
+    demand: demand.map(String),
+    dummyCost: String(file.dummyCost ?? 0),
+    objective: file.objective ?? 'min',
+    prohibited: costs.map(row => row.map(x => x === null)),
+    capacities: file.capacities ? file.capacities.map(row => row.map(x => x === null ? '' : String(x))) : createBlankDraft(supply.length, demand.length).capacities
+  });
+};
+
+export const importProblemJson = (text: string): { draft: ProblemDraft | null; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { draft: null, errors: ["不是有效的 JSON 文件"] };
+  }
+  return problemFileToDraft(data);
+};
+
+// Tabs (spreadsheet paste) win over commas, semicolons and finally whitespace
+const splitRow = (line: string): string[] => {
+  const normalized = line.replace(/，/g, ',').replace(/；/g, ';');
+  const cells = normalized.includes('\t') ? normalized.split('\t')
+    : normalized.includes(',') ? normalized.split(',')
+    : normalized.includes(';') ? normalized.split(';')
+    : normalized.trim().split(/\s+/);
+  return cells.map(cell => cell.trim().replace(/^"(.*)"$/, '$1').trim());
+};
+
+// Objective and capacity blocks written by exportProblemCsv; other blocks (the plan) are ignored
+const readSettingBlocks = (lines: string[], draft: ProblemDraft, errors: string[]) => {
+  const blocks: string[][][] = [];
+  lines.forEach((line, i) => {
+    if (line.trim() === '') return;
+    if (i === 0 || lines[i - 1].trim() === '') blocks.push([]);
+    blocks[blocks.length - 1].push(splitRow(line));
+  });
+  blocks.forEach(block => {
+    if (block[0][0] === OBJECTIVE_LABEL) {
+      const objective = block[0][1];
+      if (objective === 'min' || objective === 'max') draft.objective = objective;
+      else errors.push(`${OBJECTIVE_LABEL}须为 min 或 max，实为 “${objective ?? ''}”`);
+    }
+    if (block[0][0] === CAPACITY_LABEL) {
+      const rows = block.slice(1).map(row => row.slice(1));
+      if (rows.length !== draft.supply.length || rows.some(row => row.length > draft.demand.length)) {
+        errors.push(`${CAPACITY_LABEL}表须为 ${draft.supply.length} 行 × ${draft.demand.length} 列`);
+        return;
+      }
+      rows.forEach((row, r) => row.forEach((cell, c) => {
+        if (cell === '' || isValidQuantity(cell)) draft.capacities[r][c] = cell;
+        else errors.push(`${CAPACITY_LABEL} S${r + 1}→D${c + 1} “${cell}” 须为非负整数或留空`);
+      }));
+    }
+  });
+};
+
+// A cost matrix with supply as the last column and demand as the last row, as pasted from a spreadsheet or read
+// from CSV. Label rows/columns (D1, S1, 产量 ...) are skipped; of the later blocks only 目标 and 容量 are read
+export const parseSpreadsheet = (text: string): { draft: ProblemDraft | null; errors: string[] } => {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/);
+  const start = lines.findIndex(line => line.trim() !== '');
+  if (start === -1) return { draft: null, errors: ["内容为空"] };
+  const end = lines.findIndex((line, i) => i > start && line.trim() === '');
+  const block = lines.slice(start, end === -1 ? lines.length : end).map(splitRow);
+
+  const isNumber = (cell: string) => isValidQuantity(cell);
+  let rowOffset = 0;
+  let colOffset = 0;
+  if (!block[0].some(isNumber)) rowOffset = 1;
+  if (block.slice(rowOffset).every(row => !isNumber(row[0] ?? ''))) colOffset = 1;
+  const table = block.slice(rowOffset).map(row => row.slice(colOffset));
+  const width = Math.max(0, ...table.map(row => row.length));
+  // Drop trailing empty columns left by spreadsheet exports
+  let usedWidth = width;
+  while (usedWidth > 0 && table.every(row => (row[usedWidth - 1] ?? '') === '')) usedWidth--;
+
+  const rows = table.length - 1;
+  const cols = usedWidth - 1;
+  if (rows < 1 || cols < 1) {
+    return { draft: null, errors: ["至少需要一行运价加一行销量，且最后一列为产量"] };
+  }
+
+  // Positions are reported as they appear in the pasted text
+  const where = (r: number, c: number) => `第 ${start + rowOffset + r + 1} 行第 ${colOffset + c + 1} 列`;
+  const errors: string[] = [];
+  const draft = createBlankDraft(rows, cols);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const cell = table[r][c] ?? '';
+      if (PROHIBITED_MARKERS.includes(cell)) draft.prohibited[r][c] = true;
+      else if (isNumber(cell)) draft.costs[r][c] = cell;
+      else errors.push(cell === '' ? `${where(r, c)}缺少运价` : `${where(r, c)} “${cell}” 不是有效运价 (禁运可填 M)`);
+    }
+    const supply = table[r][cols] ?? '';
+    if (isNumber(supply)) draft.supply[r] = supply;
+    else errors.push(`${where(r, cols)}应为产量 (最后一列)，实为 “${supply}”`);
+  }
+  for (let c = 0; c < cols; c++) {
+    const demand = table[rows][c] ?? '';
+    if (isNumber(demand)) draft.demand[c] = demand;
+    else errors.push(`${where(rows, c)}应为销量 (最后一行)，实为 “${demand}”`);
+  }
+  if (end !== -1) readSettingBlocks(lines.slice(end), draft, errors);
+  if (errors.length > 0) return { draft: null, errors: errors.slice(0, 8).concat(errors.length > 8 ? [`… 另有 ${errors.length - 8} 处错误`] : []) };
+  return withDraftErrors(draft);
+};
+
+// JSON is recognized by its content, anything else is read as CSV / pasted cells
+export const importProblem = (text: string) =>
+  text.trim().startsWith('{') ? importProblemJson(text) : parseSpreadsheet(text);
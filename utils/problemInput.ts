@@ -0,0 +1,96 @@
+import { ProblemDraft, ProblemState } from '../types';
+import { createProblem, balanceProblem, applyProhibitedRoutes } from './solver';
+
+export const MIN_DIMENSION = 2;
+export const MAX_DIMENSION = 6;
+
+// --- Draft Helpers ---
+
+export const createBlankDraft = (rows: number, cols: number): ProblemDraft => ({
+  costs: Array.from({ length: rows }, () => new Array(cols).fill('')),
+  supply: new Array(rows).fill(''),
+  demand: new Array(cols).fill(''),
+  dummyCost: '0',
+  objective: 'min',
+  prohibited: Array.from({ length: rows }, () => new Array(cols).fill(false)),
+  capacities: Array.from({ length: rows }, () => new Array(cols).fill(''))
+});
+
+// Drops any dummy row/column so the draft holds only what the user entered; the dummy's unit cost becomes the penalty
+export const problemToDraft = (problem: ProblemState): ProblemDraft => {
+  const rows = problem.dummy === 'source' ? problem.rowCount - 1 : problem.rowCount;
+  const cols = problem.dummy === 'destination' ? problem.colCount - 1 : problem.colCount;
+  const dummyCost = problem.dummy === 'source' ? problem.costs[rows][0] : problem.dummy === 'destination' ? problem.costs[0][cols] : 0;
+  return {
+    costs: problem.costs.slice(0, rows).map((row, r) => row.slice(0, cols).map((cost, c) => problem.prohibited[r][c] ? '' : String(cost))),
+    supply: problem.initialSupply.slice(0, rows).map(String),
+    demand: problem.initialDemand.slice(0, cols).map(String),
+    dummyCost: String(dummyCost),
+    objective: problem.objective,
+    prohibited: problem.prohibited.slice(0, rows).map(row => row.slice(0, cols)),
+    capacities: problem.capacities.slice(0, rows).map(row => row.slice(0, cols).map(cap => cap === null ? '' : String(cap)))
+  };
+};
+
+// Non-negative integer, surrounding whitespace allowed
+export const isValidQuantity = (value: string) => /^\d+$/.test(value.trim());
+
+export const sumDraftValues = (values: string[]) =>
+  values.reduce((sum, value) => sum + (isValidQuantity(value) ? parseInt(value, 10) : 0), 0);
+
+// --- Validation ---
+
+export const parseProblemDraft = (draft: ProblemDraft): { problem: ProblemState | null; errors: string[] } => {
+  const errors: string[] = [];
+  const rows = draft.supply.length;
+  const cols = draft.demand.length;
+
+  if (rows < MIN_DIMENSION || rows > MAX_DIMENSION) errors.push(`产地数必须在 ${MIN_DIMENSION} 到 ${MAX_DIMENSION} 之间`);
+  if (cols < MIN_DIMENSION || cols > MAX_DIMENSION) errors.push(`销地数必须在 ${MIN_DIMENSION} 到 ${MAX_DIMENSION} 之间`);
+  if (draft.costs.length !== rows || draft.costs.some(row => row.length !== cols)) {
+    errors.push(`运价矩阵必须为 ${rows} 行 × ${cols} 列`);
+    return { problem: null, errors };
+  }
+
+  const invalidCosts: string[] = [];
+  draft.costs.forEach((row, r) => row.forEach((value, c) => {
+    if (!draft.prohibited[r][c] && !isValidQuantity(value)) invalidCosts.push(`c${r + 1}${c + 1}`);
+  }));
+  if (invalidCosts.length > 0) errors.push(`${draft.objective === 'max' ? '单位利润' : '运价'}须为非负整数: ${invalidCosts.join(', ')}`);
+
+  const invalidCapacities: string[] = [];
+  draft.capacities.forEach((row, r) => row.forEach((value, c) => {
+    if (value.trim() !== '' && !isValidQuantity(value)) invalidCapacities.push(`u${r + 1}${c + 1}`);
+  }));
+  if (invalidCapacities.length > 0) errors.push(`路线容量须为非负整数或留空: ${invalidCapacities.join(', ')}`);
+
+  const invalidSupply = draft.supply.map((value, r) => isValidQuantity(value) ? null : `S${r + 1}`).filter(Boolean);
+  if (invalidSupply.length > 0) errors.push(`产量须为非负整数: ${invalidSupply.join(', ')}`);
+
+  const invalidDemand = draft.demand.map((value, c) => isValidQuantity(value) ? null : `D${c + 1}`).filter(Boolean);
+  if (invalidDemand.length > 0) errors.push(`销量须为非负整数: ${invalidDemand.join(', ')}`);
+
+  const blockedSources = draft.prohibited.map((row, r) => row.every(Boolean) ? `S${r + 1}` : null).filter(Boolean);
+  const blockedDestinations = draft.demand.map((_, c) => draft.prohibited.every(row => row[c]) ? `D${c + 1}` : null).filter(Boolean);
+  if (blockedSources.length > 0 || blockedDestinations.length > 0) {
+    errors.push(`所有路线均被禁止: ${[...blockedSources, ...blockedDestinations].join(', ')}`);
+  }
+
+  if (!isValidQuantity(draft.dummyCost)) errors.push("虚拟产地/销地的单位惩罚成本须为非负整数");
+
+  if (errors.length > 0) return { problem: null, errors };
+
+  const costs = draft.costs.map((row, r) => row.map((value, c) => draft.prohibited[r][c] ? 0 : parseInt(value, 10)));
+  const supply = draft.supply.map(value => parseInt(value, 10));
+  const demand = draft.demand.map(value => parseInt(value, 10));
+  const totalSupply = supply.reduce((a, b) => a + b, 0);
+  const totalDemand = demand.reduce((a, b) => a + b, 0);
+
+  if (totalSupply === 0) errors.push("总产量必须大于 0");
+  if (totalDemand === 0) errors.push("总销量必须大于 0");
+
+  if (errors.length > 0) return { problem: null, errors };
+  const capacities = draft.capacities.map(row => row.map(value => value.trim() === '' ? null : parseInt(value, 10)));
+  const problem = { ...createProblem(costs, supply, demand, { prohibited: draft.prohibited, capacities }), objective: draft.objective };
+  return { problem: applyProhibitedRoutes(balanceProblem(problem, parseInt(draft.dummyCost, 10))), errors };
+};
@@ -0,0 +1,235 @@
+import { Cell, EngineOutcome, InitialMethod, IterationRecord, LoopNode, Objective, OptimalityMethod, PivotRule, ProblemState } from '../types';
+import { INITIAL_METHOD_LABELS, PIVOT_RULE_LABELS, calculateTotalCost, createEmptyGrid, findProhibitedFlow, findZeroDeltaCells, formatAllocation, formatWithBigM, hasCapacities } from './solver';
+import { traceSolution } from './engine';
+
+export interface ReportOptions {
+  problem: ProblemState;
+  method: InitialMethod;
+  optimality: OptimalityMethod;
+  rule: PivotRule;
+  rowLabels?: string[];
+  colLabels?: string[];
+}
+
+export type ReportFormat = 'html' | 'markdown';
+
+type CellMark = 'basic' | 'upper' | 'entering' | 'plus' | 'minus';
+
+// Both output formats are rendered from the same blocks
+type ReportBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; head: string[]; rows: string[][]; marks?: (CellMark | null)[][] };
+
+const TERMS: Record<Objective, { objective: string; total: string; coefficient: string }> = {
+  min: { objective: '最小化总运费', total: '总运费', coefficient: '运价' },
+  max: { objective: '最大化总利润', total: '总利润', coefficient: '利润' }
+};
+
+// Title of the closing section; only an optimal plan comes with its potentials
+export const OUTCOME_TITLES: Record<EngineOutcome, string> = {
+  optimal: '最优方案',
+  infeasible: '最终方案 (问题不可行)',
+  error: '中止时的方案',
+  limit: '达到迭代上限时的方案'
+};
+
+// --- Report Content ---
+
+const buildReport = ({ problem, method, optimality, rule, rowLabels, colLabels }: ReportOptions): ReportBlock[] => {
+  const terms = TERMS[problem.objective];
+  const m = (value: number) => formatWithBigM(value, problem.bigM);
+  const rowName = (r: number) => rowLabels?.[r] ?? `S${r + 1}`;
+  const colName = (c: number) => colLabels?.[c] ?? `D${c + 1}`;
+  const route = (node: LoopNode) => `x${node.r + 1}${node.c + 1} (${rowName(node.r)}→${colName(node.c)})`;
+  const trace = traceSolution(problem, method, optimality, rule);
+  const methodLabel = hasCapacities(problem) ? '容量受限最小元素法' : INITIAL_METHOD_LABELS[method];
+
+  // Tableau with supply/demand margins; potentials add a u column and a v row
+  const tableau = (grid: Cell[][], options: { showDeltas?: boolean; u?: (number | null)[]; v?: (number | null)[]; record?: IterationRecord } = {}): ReportBlock => {
+    const { showDeltas, u, v, record } = options;
+    const signOf = (r: number, c: number) => {
+      const index = record ? record.loop.slice(0, -1).findIndex(n => n.r === r && n.c === c) : -1;
+      return index === -1 ? 0 : record!.signs[index];
+    };
+    const marks: (CellMark | null)[][] = [];
+    const rows = grid.map((row, r) => {
+      const markRow: (CellMark | null)[] = [null];
+      const cells = row.map((cell, c) => {
+        const sign = signOf(r, c);
+        const isEntering = record?.entering.r === r && record.entering.c === c;
+        markRow.push(isEntering ? 'entering' : sign > 0 ? 'plus' : sign < 0 ? 'minus' : cell.isBasin ? 'basic' : cell.atUpperBound ? 'upper' : null);
+        let text = `[${m(cell.cost)}${cell.capacity != null ? ` ≤${cell.capacity}` : ''}]`;
+        if (cell.isBasin || cell.atUpperBound) text += ` ${formatAllocation(cell.allocation ?? 0)}`;
+        else if (showDeltas && cell.opportunityCost !== undefined) text += ` Δ=${m(cell.opportunityCost)}`;
+        if (sign !== 0) text += sign > 0 ? ' (+)' : ' (−)';
+        return text;
+      });
+      markRow.push(null);
+      if (u) markRow.push(null);
+      marks.push(markRow);
+      const line = [rowName(r), ...cells, formatAllocation(problem.supply[r])];
+      return u ? [...line, u[r] === null ? '?' : m(u[r]!)] : line;
+    });
+    const demandRow = ['销量', ...problem.demand.map(formatAllocation), ''];
+    rows.push(u ? [...demandRow, ''] : demandRow);
+    if (v) rows.push(['v_j', ...v.map(x => x === null ? '?' : m(x)), '', '']);
+    const head = ['', ...grid[0].map((_, c) => colName(c)), '产量', ...(u ? ['u_i'] : [])];
+    return { kind: 'table', head, rows, marks };
+  };
+
+  const blocks: ReportBlock[] = [
+    { kind: 'heading', level: 1, text: '运输问题求解报告' },
+    { kind: 'paragraph', text: `目标：${terms.objective}。初始解：${methodLabel}；检验数：${optimality === 'modi' ? '位势法 (MODI)' : '闭回路法'}；进基规则：${PIVOT_RULE_LABELS[rule]}。` }
+  ];
+
+  // Problem data
+  const totalSupply = problem.initialSupply.reduce((a, b) => a + b, 0);
+  const totalDemand = problem.initialDemand.reduce((a, b) => a + b, 0);
+  const notes = [
+    `${problem.rowCount} 个产地 × ${problem.colCount} 个销地，方括号内为单位${terms.coefficient}${hasCapacities(problem) ? '，≤ 后为路线容量' : ''}。`,
+    `总产量 ${formatAllocation(totalSupply)}，总销量 ${formatAllocation(totalDemand)}。`
+  ];
+  if (problem.dummy === 'source') notes.push(`总销量大于总产量，已添加虚拟产地 ${rowName(problem.rowCount - 1)}。`);
+  if (problem.dummy === 'destination') notes.push(`总产量大于总销量，已添加虚拟销地 ${colName(problem.colCount - 1)}。`);
+  if (problem.bigM) notes.push(`禁运路线的${terms.coefficient}记为 M (大M法，M = ${problem.bigM})。`);
+  if (problem.perturbed) notes.push("采用 ε 扰动法：各产量加 ε，最后一个销量加 mε。");
+  blocks.push(
+    { kind: 'heading', level: 2, text: '一、问题数据' },
+    { kind: 'list', items: notes },
+    tableau(createEmptyGrid(problem.rowCount, problem.colCount, problem.costs, problem))
+  );
+
+  // Initial solution
+  const initialCost = trace.iterations[0]?.cost ?? calculateTotalCost(trace.final);
+  blocks.push(
+    { kind: 'heading', level: 2, text: `二、初始基可行解 (${methodLabel})` },
+    tableau(trace.initial),
+    { kind: 'paragraph', text: `基变量 ${trace.initial.flat().filter(c => c.isBasin).length} 个 (m + n - 1 = ${problem.rowCount + problem.colCount - 1})，初始${terms.total} ${initialCost}。` }
+  );
+
+  // Iterations
+  blocks.push({ kind: 'heading', level: 2, text: '三、迭代过程' });
+  const testNote = optimality === 'modi'
+    ? '由基变量满足 u_i + v_j = c_ij (取 u₁ = 0) 求得位势，非基变量检验数 Δ_ij = c_ij − u_i − v_j。'
+    : '为每个非基变量构造经过基变量的闭回路，检验数 Δ_ij 为回路各格运价按 +、− 交替求和。';
+  if (trace.iterations.length === 0) blocks.push({ kind: 'paragraph', text: '初始解已满足最优条件，无需迭代。' });
+  trace.iterations.forEach(record => {
+    const nodes = record.loop.slice(0, -1);
+    const limits = nodes.map((node, i) => {
+      const cell = record.grid[node.r][node.c];
+      const alloc = cell.allocation ?? 0;
+      return record.signs[i] > 0 ? (cell.capacity != null ? `${cell.capacity}−${formatAllocation(alloc)}` : null) : formatAllocation(alloc);
+    });
+    const isFlip = !!record.leaving && record.leaving.r === record.entering.r && record.leaving.c === record.entering.c;
+    const enteringCell = record.grid[record.entering.r][record.entering.c];
+    const items = [
+      `调入变量：${route(record.entering)}，Δ = ${m(record.enteringDelta)}${enteringCell.atUpperBound ? ' (处于容量上界，减少其运量)' : ''}，规则：${PIVOT_RULE_LABELS[record.rule]}。`,
+      `闭回路：${record.loop.map((node, i) => `x${node.r + 1}${node.c + 1}${i < nodes.length ? (record.signs[i] > 0 ? '(+)' : '(−)') : ''}`).join(' → ')}。`,
+      `调整量：θ = min{${nodes.map((node, i) => limits[i] === null ? null : `x${node.r + 1}${node.c + 1}: ${limits[i]}`).filter(Boolean).join('，')}} = ${formatAllocation(record.theta)}。`,
+      isFlip
+        ? `调出变量：无，${route(record.entering)} 在 0 与容量之间翻转，基不变。`
+        : `调出变量：${record.leaving ? route(record.leaving) : '无'}。`,
+      `${terms.total}：${record.cost} → ${record.newCost}。`
+    ];
+    if (record.isDegenerate) items.push("退化：θ = 0 或多个格同时达到界限，出基之外的格作为 0 基变量保留。");
+    blocks.push(
+      { kind: 'heading', level: 3, text: `第 ${record.iteration} 轮` },
+      { kind: 'paragraph', text: testNote },
+      tableau(record.grid, { showDeltas: true, ...(optimality === 'modi' ? { u: record.u, v: record.v } : {}), record }),
+      { kind: 'list', items }
+    );
+  });
+  if (trace.cyclingDetected) blocks.push({ kind: 'paragraph', text: "求解中出现重复的基 (循环)，此后改用 Bland 规则。" });
+
+  // Final plan
+  const finalCost = calculateTotalCost(trace.final);
+  const potentials = trace.outcome === 'optimal' ? { u: trace.finalU, v: trace.finalV } : {};
+  blocks.push(
+    { kind: 'heading', level: 2, text: `四、${OUTCOME_TITLES[trace.outcome]}` },
+    tableau(trace.final, { showDeltas: true, ...potentials })
+  );
+  switch (trace.outcome) {
+    case 'optimal':
+      blocks.push({ kind: 'paragraph', text: `所有非基变量检验数均满足最优条件 (${problem.objective === 'max' ? 'Δ_ij ≤ 0' : 'Δ_ij ≥ 0'})。${findZeroDeltaCells(trace.final).length > 0 ? '存在检验数为 0 的非基变量，问题有多重最优解。' : ''}` });
+      break;
+    case 'infeasible':
+      blocks.push({ kind: 'paragraph', text: `最优方案仍需经禁运路线 ${findProhibitedFlow(trace.final).map(c => `${rowName(c.row)}→${colName(c.col)}`).join('、')}，问题不存在只使用允许路线的可行方案。` });
+      break;
+    case 'error':
+      blocks.push({ kind: 'paragraph', text: `基变量不构成生成树或找不到闭回路，求解中止，以下为最后一轮的方案。` });
+      break;
+    case 'limit':
+      blocks.push({ kind: 'paragraph', text: `达到迭代上限仍未满足最优条件，以下为最后一轮的方案。` });
+      break;
+  }
+  const shipments = trace.final.flat()
+    .filter(c => Math.round(c.allocation ?? 0) > 0)
+    .map(c => `${rowName(c.row)} → ${colName(c.col)}：${formatAllocation(c.allocation!)} × ${m(c.cost)} = ${m(Math.round(c.allocation!) * c.cost)}`);
+  blocks.push(
+    { kind: 'list', items: shipments },
+    { kind: 'paragraph', text: `${terms.total}：${finalCost}${problem.perturbed ? ' (令 ε → 0)' : ''}。` }
+  );
+  return blocks;
+};
+
+// --- Rendering ---
+
+const renderMarkdown = (blocks: ReportBlock[]): string => {
+  const escape = (text: string) => text.replace(/\|/g, '\\|');
+  return blocks.map(block => {
+    switch (block.kind) {
+      case 'heading': return `${'#'.repeat(block.level)} ${block.text}`;
+      case 'paragraph': return block.text;
+      case 'list': return block.items.map(item => `- ${item}`).join('\n');
+      case 'table': {
+        const line = (cells: string[]) => `| ${cells.map(escape).join(' | ')} |`;
+        // Bold marks the cells of the basis, as on the printed tableau
+        const rows = block.rows.map((row, r) => row.map((cell, c) => {
+          const mark = block.marks?.[r]?.[c];
+          return mark && mark !== 'upper' && !cell.includes('Δ') ? `**${cell}**` : cell;
+        }));
+        return [line(block.head), line(block.head.map(() => '---')), ...rows.map(line)].join('\n');
+      }
+    }
+  }).join('\n\n') + '\n';
+};
+
+const HTML_STYLE = `
+body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #1e293b; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; }
+h1 { color: #4338ca; } h2 { border-bottom: 2px solid #e2e8f0; padding-bottom: .25rem; margin-top: 2rem; } h3 { color: #475569; }
+table { border-collapse: collapse; margin: .75rem 0; font-family: ui-monospace, monospace; font-size: 13px; }
+th, td { border: 1px solid #cbd5e1; padding: 4px 10px; text-align: center; }
+th { background: #f1f5f9; }
+td.basic { background: #eef2ff; font-weight: bold; }
+td.upper { background: #ffedd5; }
+td.entering { background: #bbf7d0; font-weight: bold; }
+td.plus { background: #dcfce7; }
+td.minus { background: #fee2e2; }
+`;
+
+const renderHtml = (blocks: ReportBlock[]): string => {
+  const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = blocks.map(block => {
+    switch (block.kind) {
+      case 'heading': return `<h${block.level}>${escape(block.text)}</h${block.level}>`;
+      case 'paragraph': return `<p>${escape(block.text)}</p>`;
+      case 'list': return `<ul>${block.items.map(item => `<li>${escape(item)}</li>`).join('')}</ul>`;
+      case 'table': {
+        const head = `<tr>${block.head.map(cell => `<th>${escape(cell)}</th>`).join('')}</tr>`;
+        const rows = block.rows.map((row, r) => `<tr>${row.map((cell, c) => {
+          const mark = block.marks?.[r]?.[c];
+          return `<td${mark ? ` class="${mark}"` : ''}>${escape(cell)}</td>`;
+        }).join('')}</tr>`).join('\n');
+        return `<table>\n${head}\n${rows}\n</table>`;
+      }
+    }
+  }).join('\n');
+  return `<!DOCTYPE html>\n<html lang="zh-CN">\n<head>\n<meta charset="utf-8">\n<title>运输问题求解报告</title>\n<style>${HTML_STYLE}</style>\n</head>\n<body>\n${body}\n</body>\n</html>\n`;
+};
+
+export const generateReport = (options: ReportOptions, format: ReportFormat): string => {
+  const blocks = buildReport(options);
+  return format === 'html' ? renderHtml(blocks) : renderMarkdown(blocks);
+};
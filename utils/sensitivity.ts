@@ -0,0 +1,93 @@
+import { Cell, CostRange, LoopNode, Objective, PairRange } from '../types';
+import { findLoop } from './solver';
+
+// A non-basic cell stays priced out while this is ≤ 0 (same sign rule as the entering-cell test)
+const optimalitySign = (objective: Objective, atUpperBound?: boolean) =>
+  (objective === 'max' ? 1 : -1) * (atUpperBound ? -1 : 1);
+
+// --- Cost Ranging ---
+
+// Changing c_rc by t shifts Δ of every non-basic cell whose loop passes through (r, c) by ±t; the basis
+// stays optimal while each shifted Δ keeps its optimal sign. A non-basic cell is its own loop's first node
+export const analyzeCostRanges = (grid: Cell[][], objective: Objective = 'min'): CostRange[] => {
+  const ranges = new Map<string, { low: number; high: number }>();
+  grid.flat().forEach(cell => ranges.set(`${cell.row},${cell.col}`, { low: -Infinity, high: Infinity }));
+
+  grid.flat().filter(cell => !cell.isBasin && !cell.prohibited && cell.opportunityCost !== undefined).forEach(cell => {
+      const loop = findLoop({ r: cell.row, c: cell.col }, grid);
+      if (!loop) return;
+      const k = optimalitySign(objective, cell.atUpperBound);
+      const delta = cell.opportunityCost!;
+      loop.slice(0, -1).forEach((node, i) => {
+          // k·(Δ + s·t) ≤ 0  ⇔  k·s·t ≤ −k·Δ
+          const a = k * (i % 2 === 0 ? 1 : -1);
+          const b = -k * delta;
+          const range = ranges.get(`${node.r},${node.c}`)!;
+          if (a > 0) range.high = Math.min(range.high, b);
+          else range.low = Math.max(range.low, -b);
+      });
+  });
+
+  return grid.flat().filter(cell => !cell.prohibited).map(cell => {
+      const { low, high } = ranges.get(`${cell.row},${cell.col}`)!;
+      return { r: cell.row, c: cell.col, cost: cell.cost, isBasic: cell.isBasin, lower: cell.cost + low, upper: cell.cost + high };
+  });
+};
+
+// --- Right-hand-side Ranging ---
+
+// Path of basic cells from row r to column c in the basis tree; signs alternate starting with +
+const findTreePath = (grid: Cell[][], r: number, c: number): (LoopNode & { sign: number })[] | null => {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const prev = new Array(rows + cols).fill(-2);
+  prev[r] = -1;
+  const queue = [r];
+  while (queue.length > 0 && prev[rows + c] === -2) {
+      const node = queue.shift()!;
+      if (node < rows) {
+          for (let j = 0; j < cols; j++) {
+              if (grid[node][j].isBasin && prev[rows + j] === -2) { prev[rows + j] = node; queue.push(rows + j); }
+          }
+      } else {
+          for (let i = 0; i < rows; i++) {
+              if (grid[i][node - rows].isBasin && prev[i] === -2) { prev[i] = node; queue.push(i); }
+          }
+      }
+  }
+  if (prev[rows + c] === -2) return null;
+
+  const nodes = [rows + c];
+  while (prev[nodes[0]] !== -1) nodes.unshift(prev[nodes[0]]);
+  const path: (LoopNode & { sign: number })[] = [];
+  for (let i = 0; i < nodes.length - 1; i++) {
+      const a = nodes[i];
+      const b = nodes[i + 1];
+      const cell = a < rows ? { r: a, c: b - rows } : { r: b, c: a - rows };
+      path.push({ ...cell, sign: i % 2 === 0 ? 1 : -1 });
+  }
+  return path;
+};
+
+// Extra δ units at source r and destination c travel along the basis tree path between them
+export const analyzePairChange = (grid: Cell[][], u: (number | null)[], v: (number | null)[], r: number, c: number): PairRange | null => {
+  if (u[r] === null || v[c] === null) return null;
+  const path = findTreePath(grid, r, c);
+  if (!path) return null;
+  let lower = -Infinity;
+  let upper = Infinity;
+  path.forEach(node => {
+      const cell = grid[node.r][node.c];
+      const x = cell.allocation ?? 0;
+      const room = (cell.capacity ?? Infinity) - x;
+      // x + sign·δ must stay within [0, capacity]
+      if (node.sign > 0) {
+          lower = Math.max(lower, -x);
+          upper = Math.min(upper, room);
+      } else {
+          lower = Math.max(lower, -room);
+          upper = Math.min(upper, x);
+      }
+  });
+  return { r, c, marginal: u[r]! + v[c]!, lower, upper };
+};
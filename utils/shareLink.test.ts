@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ProblemDraft } from '../types';
+import { createBlankDraft } from './problemInput';
+import { ShareSession, decodeShareHash, encodeShareHash, isShareHash } from './shareLink';
+
+const sample = (): ProblemDraft => ({
+  ...createBlankDraft(2, 3),
+  costs: [['4', '', '6'], ['2', '5', '3']],
+  supply: ['20', '30'],
+  demand: ['10', '25', '15'],
+  dummyCost: '7',
+  objective: 'max',
+  prohibited: [[false, true, false], [false, false, false]],
+  capacities: [['8', '', ''], ['', '', '12']]
+});
+
+const session: ShareSession = { method: 'vogel', optimality: 'stepping-stone', rule: 'bland', perturbed: true, iteration: 3 };
+
+// Hash for a hand-written payload, to reach the checks a real link never fails
+const hashOf = (payload: unknown) => '#p=' + btoa(JSON.stringify(payload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const payload = () => JSON.parse(atob(encodeShareHash(sample(), session).slice(3).replace(/-/g, '+').replace(/_/g, '/')));
+
+describe('share links', () => {
+  it('reads back the problem and the session', () => {
+    const hash = encodeShareHash(sample(), session);
+    expect(isShareHash(hash)).toBe(true);
+    expect(decodeShareHash(hash)).toEqual({ draft: sample(), session, errors: [] });
+  });
+
+  it('leaves out default session fields', () => {
+    const fresh = { ...session, perturbed: false, iteration: 0 };
+    expect(decodeShareHash(encodeShareHash(sample(), fresh)).session).toEqual(fresh);
+  });
+
+  it('reports a truncated or garbled link', () => {
+    const hash = encodeShareHash(sample(), session);
+    for (const broken of [hash.slice(0, hash.length - 7), '#p=!!!', '#p=']) {
+      expect(decodeShareHash(broken)).toEqual({ draft: null, session: null, errors: ["链接已损坏，无法解码 (可能被截断)"] });
+    }
+    expect(decodeShareHash(hashOf(null)).errors).toEqual(["链接内容无效"]);
+  });
+
+  it('accepts only whole versions from 1 up to the supported one', () => {
+    for (const v of [0, -1, 1.5, '1', undefined]) expect(decodeShareHash(hashOf({ ...payload(), v })).errors).toEqual(["链接内容无效"]);
+    expect(decodeShareHash(hashOf({ ...payload(), v: 2 })).errors[0]).toContain('链接由更新版本生成 (v2)');
+  });
+
+  it('rejects a problem whose matrices do not match supply and demand', () => {
+    const p = payload();
+    const { draft, session: restored, errors } = decodeShareHash(hashOf({ ...p, p: { ...p.p, costs: p.p.costs.slice(1) } }));
+    expect(draft).toBeNull();
+    expect(restored).toBeNull();
+    expect(errors).toContain('costs 须为 2 行 × 3 列的矩阵');
+  });
+
+  it('falls back to default settings it does not know', () => {
+    const { draft, session: restored } = decodeShareHash(hashOf({ ...payload(), m: 'simplex', o: 'dual', r: 'random', e: 'yes', i: -2 }));
+    expect(draft).toEqual(sample());
+    expect(restored).toEqual({ method: 'least-cost', optimality: 'modi', rule: 'most-negative', perturbed: false, iteration: 0 });
+  });
+});
@@ -0,0 +1,76 @@
+import { InitialMethod, OptimalityMethod, PivotRule, ProblemDraft } from '../types';
+import { INITIAL_METHOD_LABELS, PIVOT_RULE_LABELS } from './solver';
+import { PROBLEM_FILE_FORMAT, PROBLEM_FILE_VERSION, draftToProblemFile, problemFileToDraft } from './problemFile';
+
+const HASH_PREFIX = '#p=';
+
+// Solver settings carried by a link; iteration 0 means the problem was not being solved yet
+export interface ShareSession {
+  method: InitialMethod;
+  optimality: OptimalityMethod;
+  rule: PivotRule;
+  perturbed: boolean;
+  iteration: number;
+}
+
+// The problem file without its format tag, plus one-letter session fields to keep the hash short
+interface SharePayload {
+  v: number;
+  p: Omit<ReturnType<typeof draftToProblemFile>, 'format' | 'version' | 'allocation'>;
+  m?: InitialMethod;
+  o?: OptimalityMethod;
+  r?: PivotRule;
+  e?: 1;
+  i?: number;
+}
+
+// base64url over UTF-8, so the hash needs no further escaping
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, ch => ch.charCodeAt(0)));
+};
+
+export const isShareHash = (hash: string) => hash.startsWith(HASH_PREFIX);
+
+// Expects a draft that passes parseProblemDraft
+export const encodeShareHash = (draft: ProblemDraft, session: ShareSession): string => {
+  const { format, version, allocation, ...problem } = draftToProblemFile(draft);
+  const payload: SharePayload = { v: version, p: problem, m: session.method, o: session.optimality, r: session.rule };
+  if (session.perturbed) payload.e = 1;
+  if (session.iteration > 0) payload.i = session.iteration;
+  return HASH_PREFIX + toBase64Url(JSON.stringify(payload));
+};
+
+export const decodeShareHash = (hash: string): { draft: ProblemDraft | null; session: ShareSession | null; errors: string[] } => {
+  let payload: Partial<SharePayload>;
+  try {
+    payload = JSON.parse(fromBase64Url(hash.slice(HASH_PREFIX.length)));
+  } catch {
+    return { draft: null, session: null, errors: ["链接已损坏，无法解码 (可能被截断)"] };
+  }
+  if (!payload || typeof payload !== 'object') return { draft: null, session: null, errors: ["链接内容无效"] };
+  if (typeof payload.v !== 'number' || !Number.isInteger(payload.v) || payload.v < 1) return { draft: null, session: null, errors: ["链接内容无效"] };
+  if (payload.v > PROBLEM_FILE_VERSION) {
+    return { draft: null, session: null, errors: [`链接由更新版本生成 (v${payload.v})，当前支持 v${PROBLEM_FILE_VERSION}`] };
+  }
+
+  const { draft, errors } = problemFileToDraft({ ...payload.p, format: PROBLEM_FILE_FORMAT, version: payload.v });
+  if (!draft) return { draft: null, session: null, errors };
+
+  // Unknown settings fall back to the defaults instead of rejecting an otherwise valid problem
+  const session: ShareSession = {
+    method: payload.m && Object.keys(INITIAL_METHOD_LABELS).includes(payload.m) ? payload.m : 'least-cost',
+    optimality: payload.o === 'stepping-stone' ? 'stepping-stone' : 'modi',
+    rule: payload.r && Object.keys(PIVOT_RULE_LABELS).includes(payload.r) ? payload.r : 'most-negative',
+    perturbed: payload.e === 1,
+    iteration: Number.isInteger(payload.i) && payload.i! > 0 ? payload.i! : 0
+  };
+  return { draft, session, errors };
+};
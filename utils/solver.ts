@@ -1,8 +1,8 @@
-import { Cell, ProblemState, LoopNode } from '../types';
+import { Cell, ProblemState, LoopNode, InitialMethod, AllocationStep, TableauLine, SteppingStoneEvaluation, Objective, AllocationChange, PivotRule } from '../types';
 
 // --- Helpers ---
 
-export const createEmptyGrid = (rows: number, cols: number, costs: number[][]): Cell[][] => {
+export const createEmptyGrid = (rows: number, cols: number, costs: number[][], routes?: Pick<ProblemState, 'prohibited' | 'capacities'>): Cell[][] => {
   const grid: Cell[][] = [];
   for (let r = 0; r < rows; r++) {
     const rowCells: Cell[] = [];
@@ -13,7 +13,9 @@ export const createEmptyGrid = (rows: number, cols: number, costs: number[][]):
         cost: costs[r][c],
         allocation: null,
         isBasin: false,
-        highlight: 'none'
+        highlight: 'none',
+        prohibited: routes?.prohibited[r][c] ?? false,
+        capacity: routes?.capacities[r][c] ?? null
       });
     }
     grid.push(rowCells);
@@ -21,16 +23,128 @@ export const createEmptyGrid = (rows: number, cols: number, costs: number[][]):
   return grid;
 };
 
+// ε terms are dropped, so a perturbed plan reports its ε → 0 cost
 export const calculateTotalCost = (grid: Cell[][]) => {
   let sum = 0;
   grid.forEach(row => row.forEach(c => {
-    if (c.allocation) sum += c.allocation * c.cost;
+    if (c.allocation) sum += Math.round(c.allocation) * c.cost;
   }));
   return sum;
 };
 
+// --- ε Perturbation ---
+
+// A power of two keeps k + jε exact in floating point, and |j| ≤ m stays far below one unit
+export const EPSILON = 1 / 1024;
+
+export const splitEpsilon = (value: number) => {
+  const units = Math.round(value);
+  return { units, epsilons: Math.round((value - units) / EPSILON) };
+};
+
+// Renders quantities of a perturbed problem as e.g. 5+2ε, 3ε or 7-ε
+export const formatAllocation = (value: number) => {
+  const { units, epsilons } = splitEpsilon(value);
+  if (epsilons === 0) return `${units}`;
+  const term = `${Math.abs(epsilons) === 1 ? '' : Math.abs(epsilons)}ε`;
+  if (units === 0) return epsilons < 0 ? `-${term}` : term;
+  return `${units}${epsilons < 0 ? '-' : '+'}${term}`;
+};
+
+// Textbook perturbation: every supply a_i + ε and the last demand b_n + mε, so no partial sum of
+// supplies equals one of demands and no basic cell can drop to 0
+export const perturbProblem = (problem: ProblemState): ProblemState => {
+  const supply = problem.supply.map(a => a + EPSILON);
+  const demand = problem.demand.map((b, j) => j === problem.colCount - 1 ? b + problem.rowCount * EPSILON : b);
+  return { ...problem, supply, demand, initialSupply: [...supply], initialDemand: [...demand], perturbed: true };
+};
+
+// Renders multiples of big-M symbolically, e.g. 2M-5, so blocked routes stay readable
+export const formatWithBigM = (value: number, bigM: number) => {
+  if (!bigM) return `${value}`;
+  const k = Math.round(value / bigM);
+  if (k === 0) return `${value}`;
+  const rest = value - k * bigM;
+  const coefficient = k === 1 ? '' : k === -1 ? '-' : `${k}`;
+  return `${coefficient}M${rest === 0 ? '' : rest > 0 ? `+${rest}` : rest}`;
+};
+
 // --- Problem Generator ---
 
+export const createProblem = (
+  costs: number[][], supply: number[], demand: number[],
+  routes?: { prohibited?: boolean[][]; capacities?: (number | null)[][] }
+): ProblemState => ({
+  costs: costs.map(row => [...row]),
+  supply: [...supply],
+  demand: [...demand],
+  initialSupply: [...supply],
+  initialDemand: [...demand],
+  rowCount: supply.length,
+  colCount: demand.length,
+  dummy: null,
+  objective: 'min',
+  prohibited: routes?.prohibited ? routes.prohibited.map(row => [...row]) : costs.map(row => row.map(() => false)),
+  capacities: routes?.capacities ? routes.capacities.map(row => [...row]) : costs.map(row => row.map(() => null)),
+  bigM: 0,
+  perturbed: false
+});
+
+// Adds a dummy destination (surplus supply) or dummy source (unmet demand) so that Σa = Σb
+export const balanceProblem = (problem: ProblemState, dummyCost = 0): ProblemState => {
+  const totalSupply = problem.initialSupply.reduce((a, b) => a + b, 0);
+  const totalDemand = problem.initialDemand.reduce((a, b) => a + b, 0);
+
+  if (totalSupply > totalDemand) {
+    const costs = problem.costs.map(row => [...row, dummyCost]);
+    const prohibited = problem.prohibited.map(row => [...row, false]);
+    const capacities = problem.capacities.map(row => [...row, null]);
+    return { ...problem, ...createProblem(costs, problem.initialSupply, [...problem.initialDemand, totalSupply - totalDemand], { prohibited, capacities }), dummy: 'destination' };
+  }
+  if (totalDemand > totalSupply) {
+    const costs = [...problem.costs, new Array(problem.colCount).fill(dummyCost)];
+    const prohibited = [...problem.prohibited, new Array(problem.colCount).fill(false)];
+    const capacities = [...problem.capacities, new Array(problem.colCount).fill(null)];
+    return { ...problem, ...createProblem(costs, [...problem.initialSupply, totalDemand - totalSupply], problem.initialDemand, { prohibited, capacities }), dummy: 'source' };
+  }
+  return problem;
+};
+
+// Prices blocked routes at big-M (−M when maximizing). M exceeds the cost of any plan
+// that avoids them, so an optimum still shipping on a blocked route means no feasible plan exists
+export const applyProhibitedRoutes = (problem: ProblemState): ProblemState => {
+  if (!problem.prohibited.some(row => row.some(Boolean))) return { ...problem, bigM: 0 };
+
+  const allowedCosts = problem.costs.flatMap((row, r) => row.filter((_, c) => !problem.prohibited[r][c]));
+  const maxAbsCost = Math.max(1, ...allowedCosts.map(Math.abs));
+  const totalSupply = problem.initialSupply.reduce((a, b) => a + b, 0);
+  const bigM = maxAbsCost * Math.max(1, totalSupply) * 2 + 1;
+  const blockedCost = problem.objective === 'max' ? -bigM : bigM;
+
+  return {
+    ...problem,
+    costs: problem.costs.map((row, r) => row.map((cost, c) => problem.prohibited[r][c] ? blockedCost : cost)),
+    bigM
+  };
+};
+
+// Rounded like the shown plan, so an amount that is only ε perturbation does not make the problem infeasible
+export const findProhibitedFlow = (grid: Cell[][]) =>
+  grid.flat().filter(cell => cell.prohibited && Math.round(cell.allocation ?? 0) > 0);
+
+// Per-node quantities routed through the dummy, i.e. supply left unshipped or demand left unmet
+export const summarizeDummyAllocation = (grid: Cell[][], problem: ProblemState): { label: string; amount: number }[] => {
+  if (problem.dummy === 'destination') {
+    const c = problem.colCount - 1;
+    return grid.map((row, r) => ({ label: `S${r + 1}`, amount: row[c].allocation ?? 0 })).filter(x => x.amount > 0);
+  }
+  if (problem.dummy === 'source') {
+    const r = problem.rowCount - 1;
+    return grid[r].map((cell, c) => ({ label: `D${c + 1}`, amount: cell.allocation ?? 0 })).filter(x => x.amount > 0);
+  }
+  return [];
+};
+
 export const generateRandomProblem = (rows: number, cols: number): ProblemState => {
   // Generate random costs (2-15) to encourage more iterations
   const costs: number[][] = [];
@@ -61,23 +175,76 @@ export const generateRandomProblem = (rows: number, cols: number): ProblemState
     supply[Math.floor(Math.random() * rows)] += diff;
   }
 
-  return {
-    costs,
-    supply,
-    demand,
-    initialSupply: [...supply],
-    initialDemand: [...demand],
-    rowCount: rows,
-    colCount: cols
-  };
+  return createProblem(costs, supply, demand);
 };
 
 // --- Algorithms ---
 
-export const solveLeastCost = (problem: ProblemState): Cell[][] => {
+export const INITIAL_METHOD_LABELS: Record<InitialMethod, string> = {
+  'least-cost': '最小元素法',
+  'northwest-corner': '西北角法',
+  'vogel': '伏格尔法',
+  'russell': '罗素法'
+};
+
+// Optional callback used by the initial methods to report allocations in the order they are made
+type AllocationListener = (step: AllocationStep) => void;
+
+// --- Basis Helpers ---
+
+// Union-find over the m row nodes and n column nodes (offset by m) of the tableau
+const createForest = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const find = (x: number): number => parent[x] === x ? x : (parent[x] = find(parent[x]));
+  // Returns false when both nodes are already connected, i.e. the edge would close a cycle
+  const union = (a: number, b: number) => {
+      const ra = find(a);
+      const rb = find(b);
+      if (ra === rb) return false;
+      parent[ra] = rb;
+      return true;
+  };
+  return { union };
+};
+
+// A valid basis is a spanning tree of the m + n row/column nodes: m + n - 1 basic cells and no cycle
+export const validateBasis = (grid: Cell[][]): { isSpanningTree: boolean; basicCount: number; hasCycle: boolean } => {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const forest = createForest(rows + cols);
+  let basicCount = 0;
+  let hasCycle = false;
+  grid.forEach(row => row.forEach(cell => {
+      if (!cell.isBasin) return;
+      basicCount++;
+      if (!forest.union(cell.row, rows + cell.col)) hasCycle = true;
+  }));
+  return { isSpanningTree: !hasCycle && basicCount === rows + cols - 1, basicCount, hasCycle };
+};
+
+// Degeneracy: adds zero allocations, in the given order, only where they join two separate components
+const completeSpanningTree = (grid: Cell[][], order: {r: number, c: number}[], onAllocate?: AllocationListener) => {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const forest = createForest(rows + cols);
+  let basicCount = 0;
+  grid.forEach(row => row.forEach(cell => {
+      if (cell.isBasin && forest.union(cell.row, rows + cell.col)) basicCount++;
+  }));
+  for (const { r, c } of order) {
+      if (basicCount >= rows + cols - 1) break;
+      if (grid[r][c].isBasin || !forest.union(r, rows + c)) continue;
+      grid[r][c].isBasin = true;
+      grid[r][c].allocation = 0;
+      basicCount++;
+      onAllocate?.({ r, c, allocation: 0 });
+  }
+};
+
+export const solveLeastCost = (problem: ProblemState, onAllocate?: AllocationListener): Cell[][] => {
   const rows = problem.rowCount;
   const cols = problem.colCount;
-  let grid = createEmptyGrid(rows, cols, problem.costs);
+  let grid = createEmptyGrid(rows, cols, problem.costs, problem);
   
   // Working copies of supply/demand
   let s = [...problem.initialSupply];
@@ -92,38 +259,341 @@ export const solveLeastCost = (problem: ProblemState): Cell[][] => {
   }
   cellsList.sort((a, b) => a.cost - b.cost);
 
-  let basicCellsCount = 0;
-
   for (const cell of cellsList) {
       if (s[cell.r] > 0 && d[cell.c] > 0) {
           const allocation = Math.min(s[cell.r], d[cell.c]);
           grid[cell.r][cell.c].allocation = allocation;
           grid[cell.r][cell.c].isBasin = true;
-          basicCellsCount++;
+          onAllocate?.({ r: cell.r, c: cell.c, allocation });
           
           s[cell.r] -= allocation;
           d[cell.c] -= allocation;
       }
   }
 
-  // Degeneracy Handling: Ensure m + n - 1 basic cells
-  const requiredBasic = rows + cols - 1;
-  if (basicCellsCount < requiredBasic) {
-      let needed = requiredBasic - basicCellsCount;
-      // Simple strategy: fill lowest cost empty cells with 0
-      for (const cell of cellsList) {
-          if (needed <= 0) break;
-          if (!grid[cell.r][cell.c].isBasin) {
-               grid[cell.r][cell.c].isBasin = true;
-               grid[cell.r][cell.c].allocation = 0; // Artificial zero
-               needed--;
+  // Degeneracy Handling: cheapest zero cells that keep the basis a spanning tree of m + n - 1 cells
+  completeSpanningTree(grid, cellsList, onAllocate);
+
+  return grid;
+};
+
+export const solveNorthwestCorner = (problem: ProblemState, onAllocate?: AllocationListener): Cell[][] => {
+  const rows = problem.rowCount;
+  const cols = problem.colCount;
+  const grid = createEmptyGrid(rows, cols, problem.costs, problem);
+
+  const s = [...problem.initialSupply];
+  const d = [...problem.initialDemand];
+
+  // Advance exactly one row or one column per allocation, so the path from
+  // (0,0) to (m-1,n-1) always yields m + n - 1 basic cells (zeros included)
+  let r = 0;
+  let c = 0;
+  while (r < rows && c < cols) {
+      const allocation = Math.min(s[r], d[c]);
+      grid[r][c].allocation = allocation;
+      grid[r][c].isBasin = true;
+      onAllocate?.({ r, c, allocation });
+
+      s[r] -= allocation;
+      d[c] -= allocation;
+
+      if (s[r] === 0 && r < rows - 1) r++;
+      else c++;
+  }
+
+  return grid;
+};
+
+// Difference between the two smallest costs; a single remaining cost is its own penalty
+const linePenalty = (costs: number[]): number | null => {
+  if (costs.length === 0) return null;
+  const sorted = [...costs].sort((a, b) => a - b);
+  return sorted.length === 1 ? sorted[0] : sorted[1] - sorted[0];
+};
+
+// Cross out exactly one line per allocation so the basis keeps m + n - 1 cells;
+// the last remaining row is kept until every column is served
+const crossOutLine = (rowActive: boolean[], colActive: boolean[], s: number[], d: number[], r: number, c: number): TableauLine => {
+  if (s[r] === 0 && (d[c] !== 0 || rowActive.filter(Boolean).length > 1)) {
+      rowActive[r] = false;
+      return { type: 'row', index: r };
+  }
+  colActive[c] = false;
+  return { type: 'col', index: c };
+};
+
+export const solveVogel = (problem: ProblemState, onAllocate?: AllocationListener): Cell[][] => {
+  const rows = problem.rowCount;
+  const cols = problem.colCount;
+  const grid = createEmptyGrid(rows, cols, problem.costs, problem);
+
+  const s = [...problem.initialSupply];
+  const d = [...problem.initialDemand];
+  const rowActive = new Array(rows).fill(true);
+  const colActive = new Array(cols).fill(true);
+
+  while (rowActive.some(Boolean) && colActive.some(Boolean)) {
+      const rowPenalties = rowActive.map((active, r) =>
+          active ? linePenalty(problem.costs[r].filter((_, c) => colActive[c])) : null);
+      const colPenalties = colActive.map((active, c) =>
+          active ? linePenalty(problem.costs.filter((_, r) => rowActive[r]).map(row => row[c])) : null);
+
+      // Largest penalty wins; rows before columns and lower index first on ties
+      let chosenLine: TableauLine = { type: 'row', index: -1 };
+      let best = -Infinity;
+      rowPenalties.forEach((p, r) => { if (p !== null && p > best) { best = p; chosenLine = { type: 'row', index: r }; } });
+      colPenalties.forEach((p, c) => { if (p !== null && p > best) { best = p; chosenLine = { type: 'col', index: c }; } });
+
+      // Cheapest active cell on the chosen line
+      let r = -1;
+      let c = -1;
+      if (chosenLine.type === 'row') {
+          r = chosenLine.index;
+          for (let j = 0; j < cols; j++) {
+              if (colActive[j] && (c === -1 || problem.costs[r][j] < problem.costs[r][c])) c = j;
+          }
+      } else {
+          c = chosenLine.index;
+          for (let i = 0; i < rows; i++) {
+              if (rowActive[i] && (r === -1 || problem.costs[i][c] < problem.costs[r][c])) r = i;
+          }
+      }
+
+      const allocation = Math.min(s[r], d[c]);
+      grid[r][c].allocation = allocation;
+      grid[r][c].isBasin = true;
+      s[r] -= allocation;
+      d[c] -= allocation;
+
+      const crossedLine = crossOutLine(rowActive, colActive, s, d, r, c);
+      onAllocate?.({ r, c, allocation, rowPenalties, colPenalties, chosenLine, crossedLine });
+  }
+
+  return grid;
+};
+
+export const solveRussell = (problem: ProblemState, onAllocate?: AllocationListener): Cell[][] => {
+  const rows = problem.rowCount;
+  const cols = problem.colCount;
+  const grid = createEmptyGrid(rows, cols, problem.costs, problem);
+
+  const s = [...problem.initialSupply];
+  const d = [...problem.initialDemand];
+  const rowActive = new Array(rows).fill(true);
+  const colActive = new Array(cols).fill(true);
+
+  while (rowActive.some(Boolean) && colActive.some(Boolean)) {
+      // ū_i and v̄_j are the largest costs still available on each line
+      const uBar = problem.costs.map(row => Math.max(...row.filter((_, c) => colActive[c])));
+      const vBar = Array.from({ length: cols }, (_, c) =>
+          Math.max(...problem.costs.filter((_, r) => rowActive[r]).map(row => row[c])));
+
+      // Most negative Δ = c_ij − ū_i − v̄_j wins; first found on ties
+      const russellDeltas: (number | null)[][] = grid.map(row => row.map(() => null));
+      let r = -1;
+      let c = -1;
+      for (let i = 0; i < rows; i++) {
+          for (let j = 0; j < cols; j++) {
+              if (!rowActive[i] || !colActive[j]) continue;
+              const delta = problem.costs[i][j] - uBar[i] - vBar[j];
+              russellDeltas[i][j] = delta;
+              if (r === -1 || delta < russellDeltas[r][c]!) { r = i; c = j; }
           }
       }
+
+      const allocation = Math.min(s[r], d[c]);
+      grid[r][c].allocation = allocation;
+      grid[r][c].isBasin = true;
+      s[r] -= allocation;
+      d[c] -= allocation;
+
+      const crossedLine = crossOutLine(rowActive, colActive, s, d, r, c);
+      onAllocate?.({ r, c, allocation, russellDeltas, crossedLine });
   }
 
   return grid;
 };
 
+export const hasCapacities = (problem: Pick<ProblemState, 'capacities'>) =>
+  problem.capacities.some(row => row.some(cap => cap !== null));
+
+// BFS in the residual network from any source with supply left to any destination with demand left
+const findAugmentingPath = (x: number[][], cap: (r: number, c: number) => number, s: number[], d: number[]) => {
+  const rows = s.length;
+  const cols = d.length;
+  const prev = new Array(rows + cols).fill(-2);
+  const queue: number[] = [];
+  s.forEach((left, r) => { if (left > 0) { prev[r] = -1; queue.push(r); } });
+
+  while (queue.length > 0) {
+      const node = queue.shift()!;
+      if (node >= rows && d[node - rows] > 0) {
+          const path = [node];
+          while (prev[path[0]] !== -1) path.unshift(prev[path[0]]);
+          return path;
+      }
+      if (node < rows) {
+          for (let c = 0; c < cols; c++) {
+              if (prev[rows + c] === -2 && x[node][c] < cap(node, c)) { prev[rows + c] = node; queue.push(rows + c); }
+          }
+      } else {
+          const c = node - rows;
+          for (let r = 0; r < rows; r++) {
+              if (prev[r] === -2 && x[r][c] > 0) { prev[r] = node; queue.push(r); }
+          }
+      }
+  }
+  return null;
+};
+
+// A closed loop through cells strictly between their bounds, as cells with alternating shared row/column
+const findFreeCycle = (x: number[][], cap: (r: number, c: number) => number): LoopNode[] | null => {
+  const rows = x.length;
+  const cols = x[0].length;
+  const isFree = (r: number, c: number) => x[r][c] > 0 && x[r][c] < cap(r, c);
+
+  for (let r0 = 0; r0 < rows; r0++) {
+      for (let c0 = 0; c0 < cols; c0++) {
+          if (!isFree(r0, c0)) continue;
+          // Path from column c0 back to row r0 that avoids the cell (r0, c0) itself
+          const prev = new Array(rows + cols).fill(-2);
+          prev[rows + c0] = -1;
+          const queue = [rows + c0];
+          while (queue.length > 0 && prev[r0] === -2) {
+              const node = queue.shift()!;
+              if (node < rows) {
+                  for (let c = 0; c < cols; c++) {
+                      if (prev[rows + c] === -2 && isFree(node, c)) { prev[rows + c] = node; queue.push(rows + c); }
+                  }
+              } else {
+                  const c = node - rows;
+                  for (let r = 0; r < rows; r++) {
+                      if (prev[r] === -2 && !(r === r0 && c === c0) && isFree(r, c)) { prev[r] = node; queue.push(r); }
+                  }
+              }
+          }
+          if (prev[r0] === -2) continue;
+
+          const nodes = [r0];
+          while (prev[nodes[nodes.length - 1]] !== -1) nodes.push(prev[nodes[nodes.length - 1]]);
+          // nodes: r0, ..., rows + c0; the closing cell (r0, c0) comes first
+          const cycle: LoopNode[] = [{ r: r0, c: c0 }];
+          for (let i = nodes.length - 1; i > 0; i--) {
+              const a = nodes[i];
+              const b = nodes[i - 1];
+              cycle.push(a < rows ? { r: a, c: b - rows } : { r: b, c: a - rows });
+          }
+          return cycle;
+      }
+  }
+  return null;
+};
+
+// Capacity-aware least-cost start: greedy allocation within route bounds, augmenting paths for any
+// leftover supply, cycle cancelling so that cells between bounds form a forest, then a spanning tree
+// of m + n - 1 basic cells with the remaining routes non-basic at 0 or at their capacity
+export const solveCapacitated = (problem: ProblemState, onAllocate?: AllocationListener): Cell[][] => {
+  const rows = problem.rowCount;
+  const cols = problem.colCount;
+  const grid = createEmptyGrid(rows, cols, problem.costs, problem);
+  const cap = (r: number, c: number) => problem.capacities[r][c] ?? Infinity;
+
+  const s = [...problem.initialSupply];
+  const d = [...problem.initialDemand];
+  const x = grid.map(row => row.map(() => 0));
+
+  const cellsList: {r: number, c: number, cost: number}[] = [];
+  for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) cellsList.push({ r, c, cost: problem.costs[r][c] });
+  }
+  cellsList.sort((a, b) => a.cost - b.cost);
+
+  for (const { r, c } of cellsList) {
+      const amount = Math.min(s[r], d[c], cap(r, c));
+      if (amount <= 0) continue;
+      x[r][c] += amount;
+      s[r] -= amount;
+      d[c] -= amount;
+  }
+
+  while (s.some(left => left > 0)) {
+      const path = findAugmentingPath(x, cap, s, d);
+      if (!path) throw new Error("路线容量不足，不存在满足所有产销量的可行方案");
+      let amount = Math.min(s[path[0]], d[path[path.length - 1] - rows]);
+      for (let i = 0; i < path.length - 1; i++) {
+          const a = path[i];
+          const b = path[i + 1];
+          amount = Math.min(amount, a < rows ? cap(a, b - rows) - x[a][b - rows] : x[b][a - rows]);
+      }
+      for (let i = 0; i < path.length - 1; i++) {
+          const a = path[i];
+          const b = path[i + 1];
+          if (a < rows) x[a][b - rows] += amount;
+          else x[b][a - rows] -= amount;
+      }
+      s[path[0]] -= amount;
+      d[path[path.length - 1] - rows] -= amount;
+  }
+
+  // Push flow around each free cycle in its non-worsening direction until one cell hits a bound
+  let cycle = findFreeCycle(x, cap);
+  while (cycle) {
+      const delta = cycle.reduce((sum, n, i) => sum + (i % 2 === 0 ? 1 : -1) * problem.costs[n.r][n.c], 0);
+      const direction = delta <= 0 ? 1 : -1;
+      const amount = Math.min(...cycle.map((n, i) =>
+          (i % 2 === 0 ? 1 : -1) * direction > 0 ? cap(n.r, n.c) - x[n.r][n.c] : x[n.r][n.c]));
+      cycle.forEach((n, i) => { x[n.r][n.c] += (i % 2 === 0 ? 1 : -1) * direction * amount; });
+      cycle = findFreeCycle(x, cap);
+  }
+
+  const forest = createForest(rows + cols);
+  const addBasic = (r: number, c: number) => {
+      grid[r][c].isBasin = true;
+      grid[r][c].allocation = x[r][c];
+      onAllocate?.({ r, c, allocation: x[r][c] });
+  };
+  cellsList.forEach(({ r, c }) => {
+      if (x[r][c] > 0 && x[r][c] < cap(r, c) && forest.union(r, rows + c)) addBasic(r, c);
+  });
+  // Cells at a bound complete the tree; empty ones first so saturated routes stay visibly at capacity
+  const atBound = [...cellsList.filter(({ r, c }) => x[r][c] === 0), ...cellsList.filter(({ r, c }) => x[r][c] > 0)];
+  atBound.forEach(({ r, c }) => {
+      if (!grid[r][c].isBasin && forest.union(r, rows + c)) addBasic(r, c);
+  });
+  grid.forEach(row => row.forEach(cell => {
+      if (!cell.isBasin && x[cell.row][cell.col] > 0) {
+          cell.allocation = x[cell.row][cell.col];
+          cell.atUpperBound = true;
+          onAllocate?.({ r: cell.row, c: cell.col, allocation: cell.allocation, atUpperBound: true });
+      }
+  }));
+
+  return grid;
+};
+
+const runInitialMethod = (problem: ProblemState, method: InitialMethod, onAllocate?: AllocationListener): Cell[][] => {
+  // Route bounds need the capacity-aware construction whichever method was selected
+  if (hasCapacities(problem)) return solveCapacitated(problem, onAllocate);
+  switch (method) {
+    case 'northwest-corner': return solveNorthwestCorner(problem, onAllocate);
+    case 'vogel': return solveVogel(problem, onAllocate);
+    case 'russell': return solveRussell(problem, onAllocate);
+    default: return solveLeastCost(problem, onAllocate);
+  }
+};
+
+// Maximization runs the minimizing heuristics on regrets (max profit − c_ij),
+// so least-cost becomes greatest-profit-first and Vogel penalties compare the two largest profits
+export const solveInitial = (problem: ProblemState, method: InitialMethod, onAllocate?: AllocationListener): Cell[][] => {
+  if (problem.objective !== 'max') return runInitialMethod(problem, method, onAllocate);
+
+  const maxProfit = Math.max(...problem.costs.flat());
+  const regretProblem = { ...problem, costs: problem.costs.map(row => row.map(c => maxProfit - c)) };
+  const grid = runInitialMethod(regretProblem, method, onAllocate);
+  return grid.map(row => row.map(cell => ({ ...cell, cost: problem.costs[cell.row][cell.col] })));
+};
+
 export const calculatePotentials = (grid: Cell[][], rows: number, cols: number): { u: (number|null)[], v: (number|null)[] } => {
   let u: (number|null)[] = new Array(rows).fill(null);
   let v: (number|null)[] = new Array(cols).fill(null);
@@ -154,26 +624,62 @@ export const calculatePotentials = (grid: Cell[][], rows: number, cols: number):
   return { u, v };
 };
 
-export const calculateOpportunityCosts = (grid: Cell[][], u: (number|null)[], v: (number|null)[]) => {
+// Objective gain per unit of moving a non-basic cell off its bound: a cell at 0 would increase,
+// a cell held at its upper bound would decrease, so the sign rule flips for the latter
+const deltaGain = (delta: number, objective: Objective, atUpperBound?: boolean) =>
+  (objective === 'max' ? delta : -delta) * (atUpperBound ? -1 : 1);
+
+// Δ that would still improve the objective: negative when minimizing cost, positive when maximizing profit
+export const isImprovingDelta = (delta: number, objective: Objective = 'min', atUpperBound?: boolean) =>
+  deltaGain(delta, objective, atUpperBound) > 0;
+
+// --- Pivot Rules ---
+
+export const PIVOT_RULE_LABELS: Record<PivotRule, string> = {
+  'most-negative': '最优检验数',
+  'first-negative': '首个改进检验数',
+  'bland': 'Bland 最小下标',
+  'largest-improvement': '最大改进量 Δ·θ'
+};
+
+// Chooses among the non-basic cells whose Δ is set. Cells are scanned row by row, which is also the
+// variable order of Bland's rule: its entering choice equals first-negative, the difference lies in
+// how applyPivot breaks θ ties
+const chooseEnteringCell = (grid: Cell[][], objective: Objective, rule: PivotRule): { enteringCell: {r: number, c: number} | null, enteringDelta: number } => {
+  const gain = (cell: Cell) => deltaGain(cell.opportunityCost!, objective, cell.atUpperBound);
+  const candidates = grid.flat().filter(cell => !cell.isBasin && cell.opportunityCost !== undefined && gain(cell) > 0);
+  if (candidates.length === 0) return { enteringCell: null, enteringDelta: 0 };
+
+  let chosen = candidates[0];
+  if (rule === 'most-negative') {
+      chosen = candidates.reduce((best, cell) => gain(cell) > gain(best) ? cell : best);
+  } else if (rule === 'largest-improvement') {
+      // Objective change of the whole pivot; degenerate loops (θ = 0) improve nothing and fall back to |Δ|
+      const improvement = (cell: Cell) => {
+          const loop = findLoop({ r: cell.row, c: cell.col }, grid);
+          return loop ? gain(cell) * Math.min(...loopLimits(grid, loop)) : 0;
+      };
+      const scored = candidates.map(cell => ({ cell, score: improvement(cell) }));
+      chosen = scored.reduce((best, x) =>
+          x.score > best.score || (x.score === best.score && gain(x.cell) > gain(best.cell)) ? x : best).cell;
+  }
+  return { enteringCell: { r: chosen.row, c: chosen.col }, enteringDelta: chosen.opportunityCost! };
+};
+
+export const calculateOpportunityCosts = (grid: Cell[][], u: (number|null)[], v: (number|null)[], objective: Objective = 'min', rule: PivotRule = 'most-negative') => {
   let newGrid = grid.map(row => row.map(c => ({...c})));
-  let minDelta = Infinity;
-  let enteringCell: {r: number, c: number} | null = null;
 
   for (let r = 0; r < newGrid.length; r++) {
       for (let c = 0; c < newGrid[0].length; c++) {
           if (!newGrid[r][c].isBasin && u[r] !== null && v[c] !== null) {
-              const delta = newGrid[r][c].cost - (u[r]! + v[c]!);
-              newGrid[r][c].opportunityCost = delta;
-              if (delta < minDelta) {
-                  minDelta = delta;
-                  enteringCell = { r, c };
-              }
+              newGrid[r][c].opportunityCost = newGrid[r][c].cost - (u[r]! + v[c]!);
           } else {
               newGrid[r][c].opportunityCost = undefined;
           }
       }
   }
-  return { grid: newGrid, minDelta, enteringCell };
+  const { enteringCell, enteringDelta } = chooseEnteringCell(newGrid, objective, rule);
+  return { grid: newGrid, enteringDelta, enteringCell, isOptimal: !enteringCell };
 };
 
 export const findLoop = (start: {r: number, c: number}, grid: Cell[][]): LoopNode[] | null => {
@@ -251,87 +757,146 @@ export const findLoop = (start: {r: number, c: number}, grid: Cell[][]): LoopNod
   return null;
 };
 
-export const applyPivot = (grid: Cell[][], loop: LoopNode[]): { newGrid: Cell[][], theta: number } => {
-  // Loop: Start (+), Next (-), Next (+), ...
-  // Find min allocation in (-) cells
-  let theta = Infinity;
-  let leavingNode: LoopNode | null = null;
+// Net cost change of shipping one unit around the loop: +c on even nodes, −c on odd nodes
+export const calculateLoopDelta = (loop: LoopNode[], grid: Cell[][]) =>
+  loop.slice(0, -1).reduce((sum, node, i) => sum + (i % 2 === 0 ? 1 : -1) * grid[node.r][node.c].cost, 0);
+
+export const calculateSteppingStoneCosts = (grid: Cell[][], objective: Objective = 'min', rule: PivotRule = 'most-negative') => {
+  let newGrid = grid.map(row => row.map(c => ({...c})));
+  const evaluations: SteppingStoneEvaluation[] = [];
 
-  for (let i = 1; i < loop.length; i += 2) {
-      const node = loop[i];
-      const alloc = grid[node.r][node.c].allocation;
-      if (alloc !== null && alloc < theta) {
-          theta = alloc;
-          leavingNode = node;
+  for (let r = 0; r < newGrid.length; r++) {
+      for (let c = 0; c < newGrid[0].length; c++) {
+          newGrid[r][c].opportunityCost = undefined;
+          if (newGrid[r][c].isBasin) continue;
+          const loop = findLoop({ r, c }, grid);
+          if (!loop) continue;
+          const delta = calculateLoopDelta(loop, grid);
+          newGrid[r][c].opportunityCost = delta;
+          evaluations.push({ cell: { r, c }, loop, delta });
       }
   }
+  const { enteringCell, enteringDelta } = chooseEnteringCell(newGrid, objective, rule);
+  return { grid: newGrid, enteringDelta, enteringCell, isOptimal: !enteringCell, evaluations };
+};
+
+export const haveSameDeltas = (a: Cell[][], b: Cell[][]) =>
+  a.every((row, r) => row.every((cell, c) => cell.opportunityCost === b[r][c].opportunityCost));
+
+// +1/−1 per loop node (closing node excluded). A cell entering from its upper bound decreases,
+// which flips every sign around the loop
+export const getLoopSigns = (loop: LoopNode[], grid: Cell[][]): number[] => {
+  const flip = grid[loop[0].r][loop[0].c].atUpperBound ? -1 : 1;
+  return loop.slice(0, -1).map((_, i) => (i % 2 === 0 ? 1 : -1) * flip);
+};
+
+// How far each loop node can move in its direction: the allocation of a (-) cell, the residual capacity of a (+) cell
+export const loopLimits = (grid: Cell[][], loop: LoopNode[]): number[] => {
+  const signs = getLoopSigns(loop, grid);
+  return loop.slice(0, -1).map((node, i) => {
+      const cell = grid[node.r][node.c];
+      const alloc = cell.allocation ?? 0;
+      return signs[i] > 0 ? (cell.capacity ?? Infinity) - alloc : alloc;
+  });
+};
+
+export const applyPivot = (grid: Cell[][], loop: LoopNode[], rule: PivotRule = 'most-negative'): { newGrid: Cell[][], theta: number, leavingNode: LoopNode | null, tiedNodes: LoopNode[], isDegenerate: boolean } => {
+  // Loop: Start (+), Next (-), Next (+), ... (reversed when the start sits at its upper bound)
+  // θ is the smallest allocation on (-) cells or residual capacity on (+) cells
+  const signs = getLoopSigns(loop, grid);
+  const nodes = loop.slice(0, -1);
+  const limits = loopLimits(grid, loop);
+  const theta = Math.min(...limits);
+  const tied = nodes.filter((_, i) => limits[i] === theta);
+
+  // Ties go to the first node in loop order, i.e. the entering cell's own bound first: a bound flip is
+  // preferred, which keeps zero-capacity routes from cycling. Bland's rule takes the smallest cell index instead
+  const cols = grid[0].length;
+  const leavingNode: LoopNode | null = rule === 'bland'
+      ? tied.reduce((best, node) => node.r * cols + node.c < best.r * cols + best.c ? node : best)
+      : tied[0] ?? null;
+
+  // Degeneracy: other loop cells reaching the same limit stay basic at 0 (or at capacity)
+  const tiedNodes = tied.filter(node => node !== nodes[0] && node !== leavingNode);
 
   // Deep copy grid with explicit type to allow null assignment later
   const newGrid: Cell[][] = grid.map(row => row.map(c => ({...c, allocation: c.allocation ?? 0})));
 
   // Apply theta
-  for (let i = 0; i < loop.length - 1; i++) { 
-      const node = loop[i];
-      if (i % 2 === 0) {
-          // Plus
-          newGrid[node.r][node.c].allocation! += theta;
-          newGrid[node.r][node.c].isBasin = true;
-      } else {
-          // Minus
-          newGrid[node.r][node.c].allocation! -= theta;
+  nodes.forEach((node, i) => { newGrid[node.r][node.c].allocation! += signs[i] * theta; });
+
+  const start = nodes[0];
+  const entering = newGrid[start.r][start.c];
+  if (leavingNode && leavingNode.r === start.r && leavingNode.c === start.c) {
+      // Bound flip: the entering cell moves between 0 and its capacity without joining the basis
+      entering.atUpperBound = !entering.atUpperBound;
+  } else {
+      entering.isBasin = true;
+      entering.atUpperBound = false;
+      if (leavingNode) {
+          const leaving = newGrid[leavingNode.r][leavingNode.c];
+          leaving.isBasin = false;
+          leaving.atUpperBound = leaving.capacity != null && leaving.allocation! > 0 && leaving.allocation === leaving.capacity;
       }
   }
 
-  // Handle leaving variable
-  if (leavingNode) {
-     newGrid[leavingNode.r][leavingNode.c].isBasin = false;
-     newGrid[leavingNode.r][leavingNode.c].allocation = null;
-  }
-  
-  // Ensure entering node is basic
-  const start = loop[0];
-  newGrid[start.r][start.c].isBasin = true;
-
   // Cleanup nulls for non-basics
   newGrid.forEach(row => row.forEach(c => {
-      if (!c.isBasin) c.allocation = null;
+      if (!c.isBasin && !c.atUpperBound) c.allocation = null;
   }));
 
-  return { newGrid, theta };
+  return { newGrid, theta, leavingNode, tiedNodes, isDegenerate: theta === 0 || tiedNodes.length > 0 };
 };
 
-// Helper to run one full iteration (Used for Auto-Solve or 'Next Iteration')
-export const performFullIteration = (grid: Cell[][], rows: number, cols: number) => {
-    // 1. Potentials
-    const { u, v } = calculatePotentials(grid, rows, cols);
-    
-    // 2. Deltas
-    const { grid: gridWithDeltas, minDelta, enteringCell } = calculateOpportunityCosts(grid, u, v);
-    
-    if (minDelta >= 0) {
-        return { isOptimal: true, grid: gridWithDeltas, cost: calculateTotalCost(gridWithDeltas) };
-    }
+// --- Alternative Optima ---
+
+// Non-basic cells with Δ = 0 at optimality: pivoting one in changes the plan but not the objective
+export const findZeroDeltaCells = (grid: Cell[][]) =>
+  grid.flat().filter(c => !c.isBasin && !c.prohibited && c.opportunityCost === 0);
 
-    if (!enteringCell) return { isError: true, message: "无法找到调入变量" };
-
-    // 3. Loop
-    const loop = findLoop(enteringCell, gridWithDeltas);
-    if (!loop) return { isError: true, message: "无法找到闭回路 (退化或逻辑错误)" };
-
-    // 4. Pivot
-    const { newGrid, theta } = applyPivot(gridWithDeltas, loop);
-    
-    // Clean up highlights for result
-    const cleanGrid = newGrid.map(row => row.map(c => ({
-        ...c,
-        opportunityCost: undefined,
-        highlight: 'none' as const
-    })));
-
-    return { 
-        isOptimal: false, 
-        grid: cleanGrid, 
-        cost: calculateTotalCost(cleanGrid), 
-        theta 
-    };
-};
\ No newline at end of file
+export const allocationKey = (grid: Cell[][]) =>
+  grid.map(row => row.map(c => c.allocation ?? 0).join(',')).join(';');
+
+export const basisKey = (grid: Cell[][]) =>
+  grid.map(row => row.map(c => c.isBasin ? 'B' : c.atUpperBound ? 'U' : '.').join('')).join('/');
+
+export const diffAllocations = (from: Cell[][], to: Cell[][]): AllocationChange[] => {
+  const changes: AllocationChange[] = [];
+  from.forEach((row, r) => row.forEach((cell, c) => {
+      const before = cell.allocation ?? 0;
+      const after = to[r][c].allocation ?? 0;
+      if (before !== after) changes.push({ r, c, from: before, to: after });
+  }));
+  return changes;
+};
+
+// Pivots a zero-Δ cell into an optimal basis and re-prices the result, which stays optimal
+export const pivotAlternative = (grid: Cell[][], cell: {r: number, c: number}, objective: Objective = 'min') => {
+  const loop = findLoop(cell, grid);
+  if (!loop) return null;
+  const { newGrid, theta } = applyPivot(grid, loop);
+  const clean = newGrid.map(row => row.map(c => ({ ...c, opportunityCost: undefined, highlight: 'none' as const })));
+  const { u, v } = calculatePotentials(clean, clean.length, clean[0].length);
+  const { grid: priced } = calculateOpportunityCosts(clean, u, v, objective);
+  return { grid: priced, u, v, theta };
+};
+
+// Walks every optimal basis reachable through zero-Δ pivots and keeps one grid per distinct plan
+export const enumerateAlternativeOptima = (grid: Cell[][], objective: Objective = 'min', limit = 20): Cell[][][] => {
+  const solutions = new Map<string, Cell[][]>([[allocationKey(grid), grid]]);
+  const visited = new Set([basisKey(grid)]);
+  const queue = [grid];
+  // Degenerate problems can have many bases per plan, so the walk itself is bounded too
+  while (queue.length > 0 && solutions.size < limit && visited.size < limit * 10) {
+      const current = queue.shift()!;
+      for (const cell of findZeroDeltaCells(current)) {
+          const next = pivotAlternative(current, { r: cell.row, c: cell.col }, objective);
+          if (!next || visited.has(basisKey(next.grid))) continue;
+          visited.add(basisKey(next.grid));
+          queue.push(next.grid);
+          const key = allocationKey(next.grid);
+          if (!solutions.has(key)) solutions.set(key, next.grid);
+      }
+  }
+  return [...solutions.values()];
+};
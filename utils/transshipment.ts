@@ -0,0 +1,128 @@
+import { ArcFlow, Cell, ProblemDraft, ProblemState, TransshipmentDraft, TransshipmentNetwork } from '../types';
+import { MAX_DIMENSION, MIN_DIMENSION, isValidQuantity } from './problemInput';
+
+export const MAX_HUBS = 3;
+
+// --- Node Labels ---
+
+// Rows of the expanded tableau are sources then hubs, columns are hubs then sinks
+export const networkLabels = (network: { supply: unknown[]; demand: unknown[]; hubCount: number }, dummy: ProblemState['dummy'] = null) => {
+  const hubs = Array.from({ length: network.hubCount }, (_, i) => `T${i + 1}`);
+  const rows = [...network.supply.map((_, i) => `S${i + 1}`), ...hubs];
+  const cols = [...hubs, ...network.demand.map((_, i) => `D${i + 1}`)];
+  if (dummy === 'source') rows.push(`S${network.supply.length + 1}`);
+  if (dummy === 'destination') cols.push(`D${network.demand.length + 1}`);
+  return { rows, cols };
+};
+
+// --- Draft Helpers ---
+
+export const createBlankTransshipmentDraft = (sources: number, hubs: number, sinks: number): TransshipmentDraft => ({
+  supply: new Array(sources).fill(''),
+  demand: new Array(sinks).fill(''),
+  hubCount: hubs,
+  // A hub never needs an arc to itself, its diagonal is the unused buffer
+  arcCosts: Array.from({ length: sources + hubs }, (_, r) =>
+    Array.from({ length: hubs + sinks }, (_, c) => r - sources === c ? '0' : ''))
+});
+
+// Every source reaches T1 and T1 reaches every sink, so the random network is always feasible;
+// S1 feeds and D1 is fed by every hub so no hub is left isolated
+export const generateRandomTransshipment = (sources: number, hubs: number, sinks: number): TransshipmentDraft => {
+  const supply = Array.from({ length: sources }, () => Math.floor(Math.random() * 40) + 10);
+  const demand = new Array(sinks).fill(0);
+  const total = supply.reduce((a, b) => a + b, 0);
+  let remaining = total;
+  for (let i = 0; i < sinks - 1; i++) {
+    demand[i] = Math.floor(remaining / (sinks - i) * (0.8 + Math.random() * 0.4));
+    remaining -= demand[i];
+  }
+  demand[sinks - 1] = remaining;
+
+  const draft = createBlankTransshipmentDraft(sources, hubs, sinks);
+  draft.supply = supply.map(String);
+  draft.demand = demand.map(String);
+  draft.arcCosts = draft.arcCosts.map((row, r) => row.map((value, c) => {
+    if (r - sources === c) return value;
+    const required = (r < sources && c === 0) || (r === sources && c >= hubs)
+      || (r === 0 && c < hubs) || (r >= sources && c === hubs);
+    return required || Math.random() < 0.7 ? String(Math.floor(Math.random() * 12) + 1) : '';
+  }));
+  return draft;
+};
+
+// --- Validation & Expansion ---
+
+export const parseTransshipmentDraft = (draft: TransshipmentDraft): { network: TransshipmentNetwork | null; errors: string[] } => {
+  const errors: string[] = [];
+  const sources = draft.supply.length;
+  const sinks = draft.demand.length;
+  const hubs = draft.hubCount;
+  const { rows, cols } = networkLabels(draft);
+
+  if (sources < 1 || sinks < 1) errors.push("至少需要一个产地和一个销地");
+  if (hubs < 1 || hubs > MAX_HUBS) errors.push(`转运点数必须在 1 到 ${MAX_HUBS} 之间`);
+  if (sources + hubs < MIN_DIMENSION || sources + hubs > MAX_DIMENSION || hubs + sinks < MIN_DIMENSION || hubs + sinks > MAX_DIMENSION) {
+    errors.push(`扩展运输表为 ${sources + hubs} 行 × ${hubs + sinks} 列，行列数须在 ${MIN_DIMENSION} 到 ${MAX_DIMENSION} 之间`);
+  }
+
+  const invalidArcs: string[] = [];
+  draft.arcCosts.forEach((row, r) => row.forEach((value, c) => {
+    if (value.trim() !== '' && !isValidQuantity(value)) invalidArcs.push(`${rows[r]}→${cols[c]}`);
+  }));
+  if (invalidArcs.length > 0) errors.push(`弧运价须为非负整数或留空: ${invalidArcs.join(', ')}`);
+
+  const invalidSupply = draft.supply.map((value, i) => isValidQuantity(value) ? null : `S${i + 1}`).filter(Boolean);
+  if (invalidSupply.length > 0) errors.push(`产量须为非负整数: ${invalidSupply.join(', ')}`);
+  const invalidDemand = draft.demand.map((value, i) => isValidQuantity(value) ? null : `D${i + 1}`).filter(Boolean);
+  if (invalidDemand.length > 0) errors.push(`销量须为非负整数: ${invalidDemand.join(', ')}`);
+
+  // Besides its own buffer diagonal a node needs at least one real arc
+  const hasArc = (r: number, c: number) => r - sources !== c && draft.arcCosts[r][c].trim() !== '';
+  const isolated = [
+    ...rows.filter((_, r) => !draft.arcCosts[r].some((_, c) => hasArc(r, c))).map(label => `${label} 无出弧`),
+    ...cols.filter((_, c) => !draft.arcCosts.some((_, r) => hasArc(r, c))).map(label => `${label} 无入弧`)
+  ];
+  if (isolated.length > 0) errors.push(`网络不连通: ${isolated.join(', ')}`);
+
+  if (errors.length > 0) return { network: null, errors };
+
+  const supply = draft.supply.map(value => parseInt(value, 10));
+  const demand = draft.demand.map(value => parseInt(value, 10));
+  const arcCosts = draft.arcCosts.map((row, r) => row.map((value, c) =>
+    r - sources === c ? 0 : value.trim() === '' ? null : parseInt(value, 10)));
+  // Enough buffer for every unit of the larger side to pass through any single hub
+  const buffer = Math.max(supply.reduce((a, b) => a + b, 0), demand.reduce((a, b) => a + b, 0));
+  if (buffer === 0) return { network: null, errors: ["总产量必须大于 0"] };
+
+  return { network: { supply, demand, hubCount: hubs, arcCosts, buffer }, errors };
+};
+
+// Hubs become both a source and a destination holding the buffer stock; missing arcs are prohibited routes
+export const transshipmentToDraft = (network: TransshipmentNetwork): ProblemDraft => {
+  const sources = network.supply.length;
+  return {
+    costs: network.arcCosts.map(row => row.map(cost => cost === null ? '' : String(cost))),
+    supply: [...network.supply, ...new Array(network.hubCount).fill(network.buffer)].map(String),
+    demand: [...new Array(network.hubCount).fill(network.buffer), ...network.demand].map(String),
+    dummyCost: '0',
+    objective: 'min',
+    prohibited: network.arcCosts.map((row, r) => row.map((cost, c) => cost === null && r - sources !== c)),
+    capacities: network.arcCosts.map(row => row.map(() => ''))
+  };
+};
+
+// --- Results ---
+
+// Per-arc flows of the original network; hub diagonals (unused buffer) and dummy routes are left out
+export const mapArcFlows = (grid: Cell[][], network: TransshipmentNetwork): ArcFlow[] => {
+  const sources = network.supply.length;
+  const { rows, cols } = networkLabels(network);
+  const flows: ArcFlow[] = [];
+  grid.forEach((row, r) => row.forEach((cell, c) => {
+    if (r >= rows.length || c >= cols.length || r - sources === c) return;
+    if (!cell.allocation || cell.prohibited) return;
+    flows.push({ from: rows[r], to: cols[c], amount: cell.allocation, cost: cell.cost });
+  }));
+  return flows;
+};